@@ -2,18 +2,29 @@ import { Toaster } from "@/components/ui/toaster";
 import { Toaster as Sonner } from "@/components/ui/sonner";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
-import { BrowserRouter, Routes, Route, Navigate } from "react-router-dom";
+import { BrowserRouter, Routes, Route, Navigate, useLocation } from "react-router-dom";
+import { Button } from "@/components/ui/button";
 import { AuthProvider, useAuth } from "@/contexts/AuthContext";
+import { returnPath, type AuthRedirectState } from "@/lib/auth";
 import Index from "./pages/Index";
 import Home from "./pages/Home";
 import Auth from "./pages/Auth";
 import CreatePin from "./pages/CreatePin";
+import PinDetail from "./pages/PinDetail";
+import Profile from "./pages/Profile";
+import Settings from "./pages/Settings";
+import Board from "./pages/Board";
+import Explore from "./pages/Explore";
+import Search from "./pages/Search";
+import Tag from "./pages/Tag";
+import Welcome from "./pages/Welcome";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
 
 const ProtectedRoute = ({ children }: { children: React.ReactNode }) => {
   const { user, loading } = useAuth();
+  const location = useLocation();
   
   if (loading) {
     return (
@@ -23,11 +34,13 @@ const ProtectedRoute = ({ children }: { children: React.ReactNode }) => {
     );
   }
   
-  return user ? <>{children}</> : <Navigate to="/auth" replace />;
+  const state: AuthRedirectState = { from: location };
+  return user ? <>{children}</> : <Navigate to="/auth" state={state} replace />;
 };
 
 const PublicRoute = ({ children }: { children: React.ReactNode }) => {
   const { user, loading } = useAuth();
+  const location = useLocation();
   
   if (loading) {
     return (
@@ -37,7 +50,31 @@ const PublicRoute = ({ children }: { children: React.ReactNode }) => {
     );
   }
   
-  return user ? <Navigate to="/" replace /> : <>{children}</>;
+  return user ? <Navigate to={returnPath(location.state)} replace /> : <>{children}</>;
+};
+
+const OwnProfileRedirect = () => {
+  const { profile, profileError, refreshProfile } = useAuth();
+
+  if (!profile && profileError) {
+    return (
+      <div className="min-h-screen flex flex-col items-center justify-center text-center px-4">
+        <h2 className="text-2xl font-semibold text-foreground mb-4">Couldn't load your profile</h2>
+        <p className="text-muted-foreground mb-6">Check your connection and try again.</p>
+        <Button onClick={refreshProfile}>Try again</Button>
+      </div>
+    );
+  }
+
+  if (!profile) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="w-8 h-8 animate-spin rounded-full border-2 border-primary border-t-transparent"></div>
+      </div>
+    );
+  }
+
+  return <Navigate to={`/u/${profile.username}`} replace />;
 };
 
 const App = () => (
@@ -50,6 +87,15 @@ const App = () => (
           <Routes>
             <Route path="/" element={<ProtectedRoute><Home /></ProtectedRoute>} />
             <Route path="/create" element={<ProtectedRoute><CreatePin /></ProtectedRoute>} />
+            <Route path="/pin/:id" element={<ProtectedRoute><PinDetail /></ProtectedRoute>} />
+            <Route path="/u/:username" element={<ProtectedRoute><Profile /></ProtectedRoute>} />
+            <Route path="/u/:username/:boardSlug" element={<ProtectedRoute><Board /></ProtectedRoute>} />
+            <Route path="/profile" element={<ProtectedRoute><OwnProfileRedirect /></ProtectedRoute>} />
+            <Route path="/explore" element={<ProtectedRoute><Explore /></ProtectedRoute>} />
+            <Route path="/search" element={<ProtectedRoute><Search /></ProtectedRoute>} />
+            <Route path="/tag/:slug" element={<ProtectedRoute><Tag /></ProtectedRoute>} />
+            <Route path="/settings" element={<ProtectedRoute><Settings /></ProtectedRoute>} />
+            <Route path="/welcome" element={<ProtectedRoute><Welcome /></ProtectedRoute>} />
             <Route path="/auth" element={<PublicRoute><Auth /></PublicRoute>} />
             {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
             <Route path="*" element={<NotFound />} />
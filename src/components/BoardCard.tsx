@@ -0,0 +1,39 @@
+import React from 'react';
+import { Link } from 'react-router-dom';
+import { Lock } from 'lucide-react';
+import { boardPath, type BoardSummary } from '@/lib/boards';
+
+interface BoardCardProps {
+  board: BoardSummary;
+  username: string;
+}
+
+const BoardCard: React.FC<BoardCardProps> = ({ board, username }) => {
+  return (
+    <Link to={boardPath(username, board.slug)} className="group block">
+      <div className="aspect-[4/3] rounded-2xl bg-muted overflow-hidden shadow-card group-hover:shadow-hover transition-all duration-300">
+        {board.cover_url && (
+          <img
+            src={board.cover_url}
+            alt={board.name}
+            className="w-full h-full object-cover transition-transform duration-500 group-hover:scale-105"
+            loading="lazy"
+          />
+        )}
+      </div>
+      <div className="pt-2 px-1">
+        <h3 className="flex items-center gap-1.5 font-semibold text-foreground">
+          <span className="truncate">{board.name}</span>
+          {board.visibility === 'secret' && (
+            <Lock className="w-3.5 h-3.5 shrink-0 text-muted-foreground" aria-label="Secret board" />
+          )}
+        </h3>
+        <p className="text-xs text-muted-foreground">
+          {board.pin_count} {board.pin_count === 1 ? 'pin' : 'pins'}
+        </p>
+      </div>
+    </Link>
+  );
+};
+
+export default BoardCard;
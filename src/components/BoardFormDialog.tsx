@@ -0,0 +1,134 @@
+import React, { useEffect, useState } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Switch } from '@/components/ui/switch';
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import { toast } from '@/hooks/use-toast';
+import type { Board } from '@/lib/boards';
+
+interface BoardFormDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  board?: Board;
+  onSaved: (board: Board) => void;
+}
+
+// Creates a new board, or edits the given one
+const BoardFormDialog: React.FC<BoardFormDialogProps> = ({ open, onOpenChange, board, onSaved }) => {
+  const { user } = useAuth();
+  const [loading, setLoading] = useState(false);
+  const [formData, setFormData] = useState({
+    name: '',
+    description: '',
+    secret: false
+  });
+
+  useEffect(() => {
+    if (open) {
+      setFormData({
+        name: board?.name || '',
+        description: board?.description || '',
+        secret: board?.visibility === 'secret'
+      });
+    }
+  }, [open, board]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user) return;
+
+    setLoading(true);
+
+    try {
+      const values = {
+        name: formData.name.trim(),
+        description: formData.description.trim() || null,
+        visibility: formData.secret ? 'secret' as const : 'public' as const
+      };
+
+      const { data, error } = board
+        ? await supabase.from('boards').update(values).eq('id', board.id).select().single()
+        : await supabase.from('boards').insert({ ...values, user_id: user.id }).select().single();
+
+      if (error) throw error;
+
+      onSaved(data);
+      onOpenChange(false);
+    } catch (error) {
+      toast({
+        title: board ? "Error updating board" : "Error creating board",
+        description: error instanceof Error ? error.message : "Something went wrong",
+        variant: "destructive"
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>{board ? 'Edit board' : 'Create board'}</DialogTitle>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-6">
+          <div className="space-y-2">
+            <Label htmlFor="board-name">Name *</Label>
+            <Input
+              id="board-name"
+              placeholder='Like "Places to go" or "Recipes to make"'
+              maxLength={50}
+              value={formData.name}
+              onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+              required
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="board-description">Description</Label>
+            <Textarea
+              id="board-description"
+              placeholder="What's your board about?"
+              rows={3}
+              value={formData.description}
+              onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+            />
+          </div>
+
+          <div className="flex items-center justify-between gap-4">
+            <div className="space-y-1">
+              <Label htmlFor="board-secret">Keep this board secret</Label>
+              <p className="text-sm text-muted-foreground">
+                Only you and collaborators can see it
+              </p>
+            </div>
+            <Switch
+              id="board-secret"
+              checked={formData.secret}
+              onCheckedChange={(checked) => setFormData({ ...formData, secret: checked })}
+            />
+          </div>
+
+          <DialogFooter>
+            <Button type="submit" disabled={!formData.name.trim() || loading}>
+              {loading ? "Saving..." : board ? "Save" : "Create"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default BoardFormDialog;
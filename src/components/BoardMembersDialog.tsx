@@ -0,0 +1,247 @@
+import React, { useState } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from '@/components/ui/select';
+import type { Board, BoardMember, BoardRole } from '@/lib/boards';
+import { toast } from '@/hooks/use-toast';
+import { UserPlus, X } from 'lucide-react';
+
+interface BoardMembersDialogProps {
+  board: Board;
+  members: BoardMember[];
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onMembersChange: (members: BoardMember[]) => void;
+  onLeave?: () => void;
+}
+
+const ROLE_LABELS: Record<BoardRole, string> = {
+  owner: 'Owner',
+  editor: 'Can edit',
+  viewer: 'Can view'
+};
+
+const BoardMembersDialog: React.FC<BoardMembersDialogProps> = ({
+  board,
+  members,
+  open,
+  onOpenChange,
+  onMembersChange,
+  onLeave
+}) => {
+  const { user } = useAuth();
+  const [inviteUsername, setInviteUsername] = useState('');
+  const [inviteRole, setInviteRole] = useState<BoardRole>('editor');
+  const [inviting, setInviting] = useState(false);
+
+  const isOwner = board.user_id === user?.id;
+
+  const handleInvite = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user) return;
+
+    const username = inviteUsername.trim().replace(/^@/, '');
+    if (!username) return;
+
+    setInviting(true);
+
+    try {
+      const { data: profile, error: profileError } = await supabase
+        .from('profiles')
+        .select('user_id, username, display_name, avatar_url')
+        .eq('username', username)
+        .maybeSingle();
+
+      if (profileError) throw profileError;
+
+      if (!profile) {
+        toast({
+          title: "User not found",
+          description: `There is nobody called @${username} on PinIt`,
+          variant: "destructive"
+        });
+        return;
+      }
+
+      if (members.some(member => member.user_id === profile.user_id)) {
+        toast({
+          title: "Already a member",
+          description: `@${username} already has access to this board`
+        });
+        return;
+      }
+
+      const { error } = await supabase
+        .from('board_members')
+        .insert({
+          board_id: board.id,
+          user_id: profile.user_id,
+          role: inviteRole,
+          invited_by: user.id
+        });
+
+      if (error) throw error;
+
+      const { user_id, ...author } = profile;
+      onMembersChange([...members, { user_id, role: inviteRole, profile: author }]);
+      setInviteUsername('');
+      toast({
+        title: "Member added",
+        description: `@${username} can now ${inviteRole === 'editor' ? 'edit' : 'view'} this board`
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to invite member",
+        variant: "destructive"
+      });
+    } finally {
+      setInviting(false);
+    }
+  };
+
+  const handleRoleChange = async (member: BoardMember, role: BoardRole) => {
+    const { error } = await supabase
+      .from('board_members')
+      .update({ role })
+      .eq('board_id', board.id)
+      .eq('user_id', member.user_id);
+
+    if (error) {
+      toast({
+        title: "Error",
+        description: "Failed to change role",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    onMembersChange(members.map(m => m.user_id === member.user_id ? { ...m, role } : m));
+  };
+
+  const handleRemove = async (member: BoardMember) => {
+    const { error } = await supabase
+      .from('board_members')
+      .delete()
+      .eq('board_id', board.id)
+      .eq('user_id', member.user_id);
+
+    if (error) {
+      toast({
+        title: "Error",
+        description: "Failed to remove member",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    onMembersChange(members.filter(m => m.user_id !== member.user_id));
+    if (member.user_id === user?.id) {
+      onOpenChange(false);
+      onLeave?.();
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Collaborators</DialogTitle>
+          <DialogDescription>
+            Editors can add, organize and remove pins. Viewers can only look.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isOwner && (
+          <form onSubmit={handleInvite} className="flex gap-2">
+            <Input
+              placeholder="Invite by username"
+              value={inviteUsername}
+              onChange={(e) => setInviteUsername(e.target.value)}
+            />
+            <Select value={inviteRole} onValueChange={(value) => setInviteRole(value as BoardRole)}>
+              <SelectTrigger className="w-32">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="editor">{ROLE_LABELS.editor}</SelectItem>
+                <SelectItem value="viewer">{ROLE_LABELS.viewer}</SelectItem>
+              </SelectContent>
+            </Select>
+            <Button type="submit" size="icon" disabled={!inviteUsername.trim() || inviting} aria-label="Invite">
+              <UserPlus className="w-4 h-4" />
+            </Button>
+          </form>
+        )}
+
+        <div className="max-h-72 overflow-y-auto -mx-2">
+          {members.map((member) => (
+            <div key={member.user_id} className="flex items-center gap-3 px-2 py-2">
+              <Avatar className="h-9 w-9">
+                <AvatarImage src={member.profile?.avatar_url} />
+                <AvatarFallback className="text-xs">
+                  {member.profile?.username?.charAt(0).toUpperCase() || 'U'}
+                </AvatarFallback>
+              </Avatar>
+              <div className="flex-1 min-w-0">
+                <p className="text-sm font-medium text-foreground truncate">
+                  {member.profile?.display_name || member.profile?.username || 'Unknown User'}
+                </p>
+                {member.profile?.username && (
+                  <p className="text-xs text-muted-foreground truncate">@{member.profile.username}</p>
+                )}
+              </div>
+
+              {isOwner && member.role !== 'owner' ? (
+                <>
+                  <Select value={member.role} onValueChange={(value) => handleRoleChange(member, value as BoardRole)}>
+                    <SelectTrigger className="w-28 h-8 text-xs">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="editor">{ROLE_LABELS.editor}</SelectItem>
+                      <SelectItem value="viewer">{ROLE_LABELS.viewer}</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8"
+                    onClick={() => handleRemove(member)}
+                    aria-label={`Remove ${member.profile?.username || 'member'}`}
+                  >
+                    <X className="w-4 h-4" />
+                  </Button>
+                </>
+              ) : member.user_id === user?.id && member.role !== 'owner' ? (
+                <Button variant="ghost" size="sm" onClick={() => handleRemove(member)}>
+                  Leave
+                </Button>
+              ) : (
+                <span className="text-xs text-muted-foreground">{ROLE_LABELS[member.role]}</span>
+              )}
+            </div>
+          ))}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default BoardMembersDialog;
@@ -0,0 +1,78 @@
+import React, { useEffect, useState } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { supabase } from '@/integrations/supabase/client';
+import { Button, type ButtonProps } from '@/components/ui/button';
+import { isFollowing } from '@/lib/follows';
+import { toast } from '@/hooks/use-toast';
+
+interface FollowButtonProps {
+  userId: string;
+  size?: ButtonProps['size'];
+  className?: string;
+  onFollowChange?: (following: boolean) => void;
+}
+
+// Follow/unfollow toggle; renders nothing for signed-out users and for yourself
+const FollowButton: React.FC<FollowButtonProps> = ({ userId, size, className, onFollowChange }) => {
+  const { user } = useAuth();
+  const viewerId = user?.id;
+  const [following, setFollowing] = useState(false);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (!viewerId || viewerId === userId) return;
+
+    setLoading(true);
+    isFollowing(viewerId, userId)
+      .then(setFollowing)
+      .catch(() => setFollowing(false))
+      .finally(() => setLoading(false));
+  }, [viewerId, userId]);
+
+  if (!viewerId || viewerId === userId) return null;
+
+  const handleClick = async () => {
+    setLoading(true);
+
+    try {
+      if (following) {
+        const { error } = await supabase
+          .from('follows')
+          .delete()
+          .eq('follower_id', viewerId)
+          .eq('following_id', userId);
+        if (error) throw error;
+      } else {
+        const { error } = await supabase
+          .from('follows')
+          .insert({ follower_id: viewerId, following_id: userId });
+        if (error) throw error;
+      }
+
+      setFollowing(!following);
+      onFollowChange?.(!following);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: following ? "Failed to unfollow" : "Failed to follow",
+        variant: "destructive"
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Button
+      size={size}
+      variant={following ? 'secondary' : 'default'}
+      className={className}
+      disabled={loading}
+      onClick={handleClick}
+    >
+      {following ? 'Following' : 'Follow'}
+    </Button>
+  );
+};
+
+export default FollowButton;
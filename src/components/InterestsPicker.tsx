@@ -0,0 +1,148 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Check, Loader2, Plus } from 'lucide-react';
+import { useAuth } from '@/contexts/AuthContext';
+import { fetchFollowedTags, fetchPopularTags, followTag, unfollowTag } from '@/lib/interests';
+import { toast } from '@/hooks/use-toast';
+import { cn } from '@/lib/utils';
+
+interface InterestOption {
+  id: string;
+  slug: string;
+  name: string;
+}
+
+interface InterestsPickerProps {
+  onFollowedChange?: (count: number) => void;
+}
+
+// Toggleable chips for popular tags and the ones already followed; every
+// toggle is saved straight away
+const InterestsPicker: React.FC<InterestsPickerProps> = ({ onFollowedChange }) => {
+  const { user } = useAuth();
+  const userId = user?.id;
+  const [options, setOptions] = useState<InterestOption[]>([]);
+  const [followed, setFollowed] = useState<Set<string>>(new Set());
+  const [pending, setPending] = useState<Set<string>>(new Set());
+  const [loading, setLoading] = useState(true);
+  // Read through a ref so a new callback does not reload the tags
+  const onFollowedChangeRef = useRef(onFollowedChange);
+  onFollowedChangeRef.current = onFollowedChange;
+
+  useEffect(() => {
+    if (!userId) return;
+
+    const loadInterests = async () => {
+      setLoading(true);
+
+      try {
+        const [popular, followedTags] = await Promise.all([
+          fetchPopularTags(),
+          fetchFollowedTags(userId)
+        ]);
+
+        // Followed tags that are not popular (any more) still need a chip
+        const popularIds = new Set(popular.map(tag => tag.tag_id));
+        setOptions([
+          ...followedTags
+            .filter(tag => !popularIds.has(tag.id))
+            .map(({ id, slug, name }) => ({ id, slug, name })),
+          ...popular.map(tag => ({ id: tag.tag_id, slug: tag.slug, name: tag.name }))
+        ]);
+        setFollowed(new Set(followedTags.map(tag => tag.id)));
+      } catch (error) {
+        toast({
+          title: "Error",
+          description: "Failed to load interests",
+          variant: "destructive"
+        });
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadInterests();
+  }, [userId]);
+
+  useEffect(() => {
+    if (!loading) onFollowedChangeRef.current?.(followed.size);
+  }, [followed, loading]);
+
+  const toggleInterest = async (tagId: string) => {
+    if (!userId || pending.has(tagId)) return;
+
+    const following = followed.has(tagId);
+    setPending(prev => new Set(prev).add(tagId));
+
+    try {
+      if (following) {
+        await unfollowTag(userId, tagId);
+      } else {
+        await followTag(userId, tagId);
+      }
+
+      setFollowed(prev => {
+        const next = new Set(prev);
+        if (following) next.delete(tagId);
+        else next.add(tagId);
+        return next;
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: following ? "Failed to remove interest" : "Failed to add interest",
+        variant: "destructive"
+      });
+    } finally {
+      setPending(prev => {
+        const next = new Set(prev);
+        next.delete(tagId);
+        return next;
+      });
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-8">
+        <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  if (options.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        There are no topics to follow yet. Tags on pins show up here as people start using them.
+      </p>
+    );
+  }
+
+  return (
+    <div className="flex flex-wrap gap-2">
+      {options.map(option => {
+        const selected = followed.has(option.id);
+
+        return (
+          <button
+            key={option.id}
+            type="button"
+            onClick={() => toggleInterest(option.id)}
+            disabled={pending.has(option.id)}
+            aria-pressed={selected}
+            className={cn(
+              "inline-flex items-center gap-1.5 px-3 py-1.5 rounded-full text-sm transition-colors disabled:opacity-60",
+              selected
+                ? "bg-primary text-primary-foreground hover:bg-primary/90"
+                : "bg-muted text-muted-foreground hover:text-foreground"
+            )}
+          >
+            {selected ? <Check className="w-3.5 h-3.5" /> : <Plus className="w-3.5 h-3.5" />}
+            {option.name}
+          </button>
+        );
+      })}
+    </div>
+  );
+};
+
+export default InterestsPicker;
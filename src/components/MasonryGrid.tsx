@@ -1,20 +1,16 @@
-import React, { useEffect, useState } from 'react';
+import React, { useCallback, useEffect, useLayoutEffect, useMemo, useRef, useState } from 'react';
 import PinCard from './PinCard';
-
-interface Pin {
-  id: string;
-  title: string;
-  description?: string;
-  image_url: string;
-  tags?: string[];
-  user_id: string;
-  created_at: string;
-  profiles?: {
-    username: string;
-    display_name?: string;
-    avatar_url?: string;
-  };
-}
+import { Button } from '@/components/ui/button';
+import { ArrowUp, Loader2 } from 'lucide-react';
+import { useScrollRestoration } from '@/hooks/use-scroll-restoration';
+import {
+  layoutMasonry,
+  positionColumns,
+  toColumns,
+  type CardMeasurement,
+  type MasonryLayout
+} from '@/lib/masonry';
+import type { Pin } from '@/types/pin';
 
 interface MasonryGridProps {
   pins: Pin[];
@@ -23,17 +19,88 @@ interface MasonryGridProps {
   onLike?: (pinId: string, liked: boolean) => void;
   onSave?: (pinId: string, saved: boolean) => void;
   onDelete?: (pinId: string) => void;
+  renderMenuItems?: (pin: Pin) => React.ReactNode;
+  newPinCount?: number;
+  onShowNewPins?: () => void;
+  // Infinite scroll: onLoadMore fires when the bottom of the grid comes into view
+  hasMore?: boolean;
+  loadingMore?: boolean;
+  loadMoreError?: boolean;
+  onLoadMore?: () => void;
+  // Pages with several grids restore the scroll position themselves
+  restoreScroll?: boolean;
+}
+
+// Start fetching the next page a little before the user reaches the end
+const LOAD_MORE_MARGIN = '800px 0px';
+
+// Matches gap-4
+const GRID_GAP = 16;
+
+// Cards this far above or below the viewport stay mounted, so fast scrolling
+// does not show empty space
+const OVERSCAN = 1200;
+
+// The visible range is rounded to this step so scrolling only re-renders the
+// grid when cards may enter or leave it
+const VIEWPORT_STEP = 400;
+
+interface Viewport {
+  top: number;
+  bottom: number;
+}
+
+interface MeasuredItemProps {
+  pinId: string;
+  observer: ResizeObserver | null;
+  style: React.CSSProperties;
+  children: React.ReactNode;
 }
 
+// Absolutely positioned slot whose rendered height is reported to the grid
+const MeasuredItem: React.FC<MeasuredItemProps> = ({ pinId, observer, style, children }) => {
+  const ref = useRef<HTMLDivElement>(null);
+
+  useLayoutEffect(() => {
+    const element = ref.current;
+    if (!element || !observer) return;
+
+    observer.observe(element);
+    return () => observer.unobserve(element);
+  }, [observer]);
+
+  return (
+    <div ref={ref} data-pin-id={pinId} className="absolute" style={style}>
+      {children}
+    </div>
+  );
+};
+
 const MasonryGrid: React.FC<MasonryGridProps> = ({ 
   pins, 
   likedPins, 
   savedPins, 
   onLike, 
   onSave,
-  onDelete 
+  onDelete,
+  renderMenuItems,
+  newPinCount = 0,
+  onShowNewPins,
+  hasMore = false,
+  loadingMore = false,
+  loadMoreError = false,
+  onLoadMore,
+  restoreScroll = true
 }) => {
   const [columns, setColumns] = useState(4);
+  const [width, setWidth] = useState(0);
+  const [viewport, setViewport] = useState<Viewport>({ top: 0, bottom: 0 });
+  const [cardObserver, setCardObserver] = useState<ResizeObserver | null>(null);
+  const [measurements, setMeasurements] = useState(() => new Map<string, CardMeasurement>());
+  const containerRef = useRef<HTMLDivElement>(null);
+  const sentinelRef = useRef<HTMLDivElement>(null);
+  const layoutRef = useRef<MasonryLayout | null>(null);
+  const canLoadMore = !!onLoadMore && hasMore && !loadingMore && !loadMoreError;
 
   useEffect(() => {
     const updateColumns = () => {
@@ -49,38 +116,176 @@ const MasonryGrid: React.FC<MasonryGridProps> = ({
     return () => window.removeEventListener('resize', updateColumns);
   }, []);
 
-  // Distribute pins across columns for masonry layout
-  const distributeColumns = () => {
-    const cols: Pin[][] = Array.from({ length: columns }, () => []);
-    
-    pins.forEach((pin, index) => {
-      const columnIndex = index % columns;
-      cols[columnIndex].push(pin);
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || !canLoadMore) return;
+
+    const observer = new IntersectionObserver((entries) => {
+      if (entries[0]?.isIntersecting) onLoadMore();
+    }, { rootMargin: LOAD_MORE_MARGIN });
+
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [canLoadMore, onLoadMore]);
+
+  useLayoutEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    setWidth(container.clientWidth);
+    const observer = new ResizeObserver((entries) => {
+      setWidth(entries[0].contentRect.width);
     });
-    
-    return cols;
-  };
 
-  const columnData = distributeColumns();
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, []);
+
+  // One observer for every mounted card; images loading or text wrapping
+  // differently than estimated shows up as a new measurement
+  useEffect(() => {
+    const observer = new ResizeObserver((entries) => {
+      const measured = new Map<string, CardMeasurement>();
+
+      entries.forEach(entry => {
+        const element = entry.target as HTMLElement;
+        const pinId = element.dataset.pinId;
+        const height = element.offsetHeight;
+        if (!pinId || !element.isConnected || height === 0) return;
+
+        measured.set(pinId, { width: element.offsetWidth, height });
+      });
+
+      setMeasurements(current => {
+        const changed = [...measured].filter(([pinId, size]) => {
+          const previous = current.get(pinId);
+          return !previous || previous.width !== size.width || previous.height !== size.height;
+        });
+        if (changed.length === 0) return current;
+
+        const next = new Map(current);
+        changed.forEach(([pinId, size]) => next.set(pinId, size));
+        return next;
+      });
+    });
+
+    setCardObserver(observer);
+    return () => observer.disconnect();
+  }, []);
+
+  const updateViewport = useCallback(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    const top = -container.getBoundingClientRect().top;
+    const bottom = top + window.innerHeight;
+    const next = {
+      top: Math.floor(top / VIEWPORT_STEP) * VIEWPORT_STEP,
+      bottom: Math.ceil(bottom / VIEWPORT_STEP) * VIEWPORT_STEP
+    };
+
+    setViewport(current => (
+      current.top === next.top && current.bottom === next.bottom ? current : next
+    ));
+  }, []);
+
+  useEffect(() => {
+    let frame = 0;
+    const onScroll = () => {
+      if (frame) return;
+      frame = requestAnimationFrame(() => {
+        frame = 0;
+        updateViewport();
+      });
+    };
+
+    updateViewport();
+    window.addEventListener('scroll', onScroll, { passive: true });
+    window.addEventListener('resize', onScroll);
+    return () => {
+      cancelAnimationFrame(frame);
+      window.removeEventListener('scroll', onScroll);
+      window.removeEventListener('resize', onScroll);
+    };
+  }, [updateViewport]);
+
+  // Shortest-column layout that builds on the previous one as pages are appended
+  const layout = useMemo(() => layoutMasonry(pins, columns, layoutRef.current), [pins, columns]);
+  layoutRef.current = layout;
+
+  const columnData = useMemo(() => toColumns(pins, layout), [pins, layout]);
+  const columnWidth = Math.max((width - GRID_GAP * (columns - 1)) / columns, 0);
+
+  const positioned = useMemo(
+    () => positionColumns(columnData, columnWidth, GRID_GAP, measurements),
+    [columnData, columnWidth, measurements]
+  );
+
+  // Content above the grid (headers, tabs) can change the grid's offset
+  useLayoutEffect(updateViewport, [updateViewport, positioned.height]);
+
+  const visibleItems = positioned.items.filter(item => (
+    item.top + item.height >= viewport.top - OVERSCAN &&
+    item.top <= viewport.bottom + OVERSCAN
+  ));
+
+  useScrollRestoration({
+    contentHeight: positioned.height,
+    hasMore: !!onLoadMore && hasMore && !loadMoreError,
+    loadingMore,
+    onLoadMore,
+    enabled: restoreScroll
+  });
 
   return (
-    <div className="grid gap-4 px-4 py-6" style={{ gridTemplateColumns: `repeat(${columns}, 1fr)` }}>
-      {columnData.map((columnPins, columnIndex) => (
-        <div key={columnIndex} className="flex flex-col gap-4">
-          {columnPins.map((pin) => (
-            <PinCard
+    <>
+      {newPinCount > 0 && onShowNewPins && (
+        <div className="sticky top-20 z-10 flex justify-center pt-4">
+          <Button size="sm" className="rounded-full shadow-hover" onClick={onShowNewPins}>
+            <ArrowUp className="w-4 h-4 mr-2" />
+            {newPinCount} new {newPinCount === 1 ? 'pin' : 'pins'} — show
+          </Button>
+        </div>
+      )}
+      <div className="px-4 py-6">
+        <div ref={containerRef} className="relative" style={{ height: positioned.height }}>
+          {width > 0 && visibleItems.map(({ pin, left, top }) => (
+            <MeasuredItem
               key={pin.id}
-              pin={pin}
-              liked={likedPins.has(pin.id)}
-              saved={savedPins.has(pin.id)}
-              onLike={onLike}
-              onSave={onSave}
-              onDelete={onDelete}
-            />
+              pinId={pin.id}
+              observer={cardObserver}
+              style={{ left, top, width: columnWidth }}
+            >
+              <PinCard
+                pin={pin}
+                liked={likedPins.has(pin.id)}
+                saved={savedPins.has(pin.id)}
+                onLike={onLike}
+                onSave={onSave}
+                onDelete={onDelete}
+                menuItems={renderMenuItems?.(pin)}
+              />
+            </MeasuredItem>
           ))}
         </div>
-      ))}
-    </div>
+      </div>
+      {onLoadMore && (
+        <div ref={sentinelRef} className="flex justify-center px-4 pb-10 text-sm text-muted-foreground">
+          {loadingMore ? (
+            <Loader2 className="w-6 h-6 animate-spin" />
+          ) : loadMoreError ? (
+            <div className="flex items-center gap-3">
+              <span>Couldn't load more pins</span>
+              <Button variant="secondary" size="sm" onClick={onLoadMore}>
+                Try again
+              </Button>
+            </div>
+          ) : !hasMore && pins.length > 0 ? (
+            <span>You've reached the end</span>
+          ) : null}
+        </div>
+      )}
+    </>
   );
 };
 
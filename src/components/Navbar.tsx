@@ -1,31 +1,25 @@
-import React, { useState } from 'react';
+import React from 'react';
 import { useAuth } from '@/contexts/AuthContext';
 import { Button } from '@/components/ui/button';
-import { Input } from '@/components/ui/input';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import NotificationBell from '@/components/NotificationBell';
+import SearchBox from '@/components/SearchBox';
 import { 
   DropdownMenu, 
   DropdownMenuContent, 
   DropdownMenuItem, 
   DropdownMenuTrigger 
 } from '@/components/ui/dropdown-menu';
-import { Pin, Search, Plus, User, LogOut, Settings } from 'lucide-react';
+import { Compass, Pin, Plus, User, LogOut, Settings } from 'lucide-react';
 import { Link, useNavigate } from 'react-router-dom';
 
 interface NavbarProps {
-  onSearch?: (query: string) => void;
   searchQuery?: string;
 }
 
-const Navbar: React.FC<NavbarProps> = ({ onSearch, searchQuery = '' }) => {
-  const { user, signOut } = useAuth();
+const Navbar: React.FC<NavbarProps> = ({ searchQuery = '' }) => {
+  const { user, profile, signOut } = useAuth();
   const navigate = useNavigate();
-  const [localSearchQuery, setLocalSearchQuery] = useState(searchQuery);
-
-  const handleSearch = (e: React.FormEvent) => {
-    e.preventDefault();
-    onSearch?.(localSearchQuery);
-  };
 
   const handleCreatePin = () => {
     navigate('/create');
@@ -49,20 +43,18 @@ const Navbar: React.FC<NavbarProps> = ({ onSearch, searchQuery = '' }) => {
 
           {/* Search Bar */}
           <div className="flex-1 max-w-2xl mx-8">
-            <form onSubmit={handleSearch} className="relative">
-              <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-muted-foreground w-4 h-4" />
-              <Input
-                type="text"
-                placeholder="Search for ideas..."
-                value={localSearchQuery}
-                onChange={(e) => setLocalSearchQuery(e.target.value)}
-                className="pl-10 bg-muted/50 border-0 focus:bg-background focus:ring-2 focus:ring-primary/20"
-              />
-            </form>
+            <SearchBox initialQuery={searchQuery} />
           </div>
 
           {/* Actions */}
           <div className="flex items-center space-x-4">
+            <Button variant="ghost" size="sm" className="font-medium" asChild>
+              <Link to="/explore">
+                <Compass className="w-4 h-4 mr-2" />
+                Explore
+              </Link>
+            </Button>
+
             <Button 
               onClick={handleCreatePin}
               size="sm" 
@@ -72,13 +64,15 @@ const Navbar: React.FC<NavbarProps> = ({ onSearch, searchQuery = '' }) => {
               Create
             </Button>
 
+            <NotificationBell />
+
             <DropdownMenu>
               <DropdownMenuTrigger asChild>
                 <Button variant="ghost" className="relative h-8 w-8 rounded-full">
                   <Avatar className="h-8 w-8">
-                    <AvatarImage src={user?.user_metadata?.avatar_url} />
+                    <AvatarImage src={profile?.avatar_url} />
                     <AvatarFallback>
-                      {user?.email?.charAt(0).toUpperCase() || 'U'}
+                      {(profile?.username || user?.email)?.charAt(0).toUpperCase() || 'U'}
                     </AvatarFallback>
                   </Avatar>
                 </Button>
@@ -0,0 +1,178 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { formatDistanceToNow } from 'date-fns';
+import { useAuth } from '@/contexts/AuthContext';
+import { Button } from '@/components/ui/button';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import {
+  describeGroup,
+  fetchNotifications,
+  fetchUnreadCount,
+  groupNotifications,
+  markAllRead,
+  markRead,
+  type AppNotification,
+  type NotificationGroup
+} from '@/lib/notifications';
+import { toast } from '@/hooks/use-toast';
+import { Bell, Loader2 } from 'lucide-react';
+
+const NotificationBell: React.FC = () => {
+  const { user } = useAuth();
+  const userId = user?.id;
+  const navigate = useNavigate();
+  const [open, setOpen] = useState(false);
+  const [notifications, setNotifications] = useState<AppNotification[]>([]);
+  const [unreadCount, setUnreadCount] = useState(0);
+  const [loading, setLoading] = useState(false);
+
+  const groups = useMemo(() => groupNotifications(notifications), [notifications]);
+
+  useEffect(() => {
+    if (!userId) return;
+
+    fetchUnreadCount(userId)
+      .then(setUnreadCount)
+      .catch(() => setUnreadCount(0));
+  }, [userId]);
+
+  useEffect(() => {
+    if (!open || !userId) return;
+
+    const loadNotifications = async () => {
+      setLoading(true);
+
+      try {
+        const [list, count] = await Promise.all([
+          fetchNotifications(userId),
+          fetchUnreadCount(userId)
+        ]);
+        setNotifications(list);
+        setUnreadCount(count);
+      } catch (error) {
+        toast({
+          title: "Error",
+          description: "Failed to load notifications",
+          variant: "destructive"
+        });
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadNotifications();
+  }, [open, userId]);
+
+  const markLocallyRead = (ids: string[]) => {
+    const readAt = new Date().toISOString();
+    const pending = new Set(ids);
+    const newlyRead = notifications.filter(n => pending.has(n.id) && !n.read_at).length;
+
+    setNotifications(prev => prev.map(n => pending.has(n.id) && !n.read_at ? { ...n, read_at: readAt } : n));
+    setUnreadCount(prev => Math.max(0, prev - newlyRead));
+  };
+
+  const handleOpenGroup = async (group: NotificationGroup) => {
+    setOpen(false);
+
+    if (group.unread) {
+      try {
+        await markRead(group.ids);
+        markLocallyRead(group.ids);
+      } catch (error) {
+        console.error('Error marking notifications read:', error);
+      }
+    }
+
+    if (group.pin) {
+      navigate(`/pin/${group.pin.id}${group.type === 'comment' || group.type === 'reply' ? '#comments' : ''}`);
+    } else if (group.actors[0]) {
+      navigate(`/u/${group.actors[0].username}`);
+    }
+  };
+
+  const handleMarkAllRead = async () => {
+    if (!userId) return;
+
+    try {
+      await markAllRead(userId);
+      setNotifications(prev => prev.map(n => n.read_at ? n : { ...n, read_at: new Date().toISOString() }));
+      setUnreadCount(0);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to mark notifications as read",
+        variant: "destructive"
+      });
+    }
+  };
+
+  if (!userId) return null;
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="icon" className="relative" aria-label="Notifications">
+          <Bell className="w-5 h-5" />
+          {unreadCount > 0 && (
+            <span className="absolute -top-0.5 -right-0.5 min-w-[1.125rem] h-[1.125rem] px-1 rounded-full bg-primary text-primary-foreground text-[10px] font-semibold flex items-center justify-center">
+              {unreadCount > 99 ? '99+' : unreadCount}
+            </span>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-96 p-0">
+        <div className="flex items-center justify-between px-4 py-3 border-b border-border">
+          <h2 className="font-semibold text-foreground">Notifications</h2>
+          <Button variant="ghost" size="sm" onClick={handleMarkAllRead} disabled={unreadCount === 0}>
+            Mark all as read
+          </Button>
+        </div>
+
+        <div className="max-h-[28rem] overflow-y-auto">
+          {loading && groups.length === 0 ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+            </div>
+          ) : groups.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-8">
+              You're all caught up
+            </p>
+          ) : (
+            groups.map((group) => (
+              <button
+                key={group.key}
+                type="button"
+                onClick={() => handleOpenGroup(group)}
+                className={`w-full flex items-center gap-3 px-4 py-3 text-left hover:bg-muted transition-colors ${group.unread ? 'bg-primary/5' : ''}`}
+              >
+                <Avatar className="h-10 w-10 shrink-0">
+                  <AvatarImage src={group.actors[0]?.avatar_url} />
+                  <AvatarFallback>
+                    {group.actors[0]?.username?.charAt(0).toUpperCase() || 'U'}
+                  </AvatarFallback>
+                </Avatar>
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm text-foreground line-clamp-2">
+                    {describeGroup(group)}
+                    {group.pin && <span className="text-muted-foreground">: {group.pin.title}</span>}
+                  </p>
+                  <p className="text-xs text-muted-foreground mt-0.5">
+                    {formatDistanceToNow(new Date(group.latest), { addSuffix: true })}
+                  </p>
+                </div>
+                {group.pin && (
+                  <img src={group.pin.image_url} alt="" className="w-10 h-10 rounded-lg object-cover shrink-0" />
+                )}
+                {group.unread && <span className="w-2 h-2 rounded-full bg-primary shrink-0" aria-label="Unread" />}
+              </button>
+            ))
+          )}
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default NotificationBell;
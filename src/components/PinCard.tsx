@@ -1,5 +1,6 @@
 import React, { useState } from 'react';
-import { Heart, Bookmark, Download, MoreHorizontal } from 'lucide-react';
+import { Link } from 'react-router-dom';
+import { Heart, Bookmark, Download, MoreHorizontal, Link2, Lock, MessageCircle } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { 
@@ -8,24 +9,12 @@ import {
   DropdownMenuItem, 
   DropdownMenuTrigger 
 } from '@/components/ui/dropdown-menu';
-import { useAuth } from '@/contexts/AuthContext';
-import { supabase } from '@/integrations/supabase/client';
-import { toast } from '@/hooks/use-toast';
-
-interface Pin {
-  id: string;
-  title: string;
-  description?: string;
-  image_url: string;
-  tags?: string[];
-  user_id: string;
-  created_at: string;
-  profiles?: {
-    username: string;
-    display_name?: string;
-    avatar_url?: string;
-  };
-}
+import SaveToBoardDialog from '@/components/SaveToBoardDialog';
+import { DEFAULT_ASPECT_RATIO } from '@/lib/masonry';
+import { imageSrcSet } from '@/lib/images';
+import { usePinActions } from '@/hooks/use-pin-actions';
+import { tagPath } from '@/lib/tags';
+import type { Pin } from '@/types/pin';
 
 interface PinCardProps {
   pin: Pin;
@@ -34,126 +23,80 @@ interface PinCardProps {
   onLike?: (pinId: string, liked: boolean) => void;
   onSave?: (pinId: string, saved: boolean) => void;
   onDelete?: (pinId: string) => void;
+  menuItems?: React.ReactNode;
 }
 
+// Tile width at each of MasonryGrid's column breakpoints
+const GRID_IMAGE_SIZES = '(max-width: 639px) 50vw, (max-width: 1023px) 33vw, (max-width: 1279px) 25vw, 20vw';
+
 const PinCard: React.FC<PinCardProps> = ({ 
   pin, 
   liked = false, 
   saved = false, 
   onLike, 
   onSave,
-  onDelete 
+  onDelete,
+  menuItems
 }) => {
-  const { user } = useAuth();
-  const [isLiked, setIsLiked] = useState(liked);
-  const [isSaved, setIsSaved] = useState(saved);
   const [imageLoaded, setImageLoaded] = useState(false);
-
-  const isOwner = user?.id === pin.user_id;
-
-  const handleLike = async () => {
-    if (!user) return;
-    
-    try {
-      if (isLiked) {
-        await supabase
-          .from('likes')
-          .delete()
-          .eq('user_id', user.id)
-          .eq('pin_id', pin.id);
-      } else {
-        await supabase
-          .from('likes')
-          .insert({ user_id: user.id, pin_id: pin.id });
-      }
-      
-      setIsLiked(!isLiked);
-      onLike?.(pin.id, !isLiked);
-    } catch (error) {
-      toast({
-        title: "Error",
-        description: "Failed to update like status",
-        variant: "destructive"
-      });
-    }
-  };
-
-  const handleSave = async () => {
-    if (!user) return;
-    
-    try {
-      if (isSaved) {
-        await supabase
-          .from('saves')
-          .delete()
-          .eq('user_id', user.id)
-          .eq('pin_id', pin.id);
-      } else {
-        await supabase
-          .from('saves')
-          .insert({ user_id: user.id, pin_id: pin.id });
-      }
-      
-      setIsSaved(!isSaved);
-      onSave?.(pin.id, !isSaved);
-    } catch (error) {
-      toast({
-        title: "Error",
-        description: "Failed to update save status",
-        variant: "destructive"
-      });
-    }
-  };
-
-  const handleDelete = async () => {
-    if (!isOwner) return;
-    
-    try {
-      await supabase
-        .from('pins')
-        .delete()
-        .eq('id', pin.id);
-      
-      onDelete?.(pin.id);
-      toast({
-        title: "Pin deleted",
-        description: "Your pin has been deleted successfully"
-      });
-    } catch (error) {
-      toast({
-        title: "Error",
-        description: "Failed to delete pin",
-        variant: "destructive"
-      });
-    }
-  };
-
-  const handleDownload = () => {
-    const link = document.createElement('a');
-    link.href = pin.image_url;
-    link.download = `${pin.title || 'pin'}.jpg`;
-    link.target = '_blank';
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
-  };
+  const hasSize = !!pin.width && !!pin.height;
+  const hasPreview = !!pin.placeholder || !!pin.dominant_color;
+  const {
+    isOwner,
+    isLiked,
+    isSaved,
+    likeCount,
+    saveDialogOpen,
+    setSaveDialogOpen,
+    handleLike,
+    handleSave,
+    handleSavedChange,
+    handleDelete,
+    handleDownload,
+    handleCopyLink,
+  } = usePinActions(pin, { liked, saved, onLike, onSave, onDelete });
 
   return (
     <div className="group relative bg-card rounded-2xl overflow-hidden shadow-card hover:shadow-hover transition-all duration-300 animate-scale-in">
-      {/* Image Container */}
-      <div className="relative overflow-hidden">
+      {/* Image Container, sized from the stored dimensions so it does not jump on load;
+          pins without them hold the grid's default shape until the image arrives */}
+      <div
+        className="relative overflow-hidden"
+        style={
+          hasSize ? { aspectRatio: `${pin.width} / ${pin.height}` }
+            : !imageLoaded ? { aspectRatio: `1 / ${DEFAULT_ASPECT_RATIO}` }
+            : undefined
+        }
+      >
         <img
           src={pin.image_url}
+          srcSet={imageSrcSet(pin.image_variants)}
+          sizes={GRID_IMAGE_SIZES}
           alt={pin.title}
-          className={`w-full h-auto object-cover transition-all duration-500 group-hover:scale-105 ${
+          width={pin.width ?? undefined}
+          height={pin.height ?? undefined}
+          className={`w-full ${hasSize ? 'h-full' : 'h-auto'} object-cover transition-all duration-500 group-hover:scale-105 ${
             imageLoaded ? 'opacity-100' : 'opacity-0'
           }`}
           onLoad={() => setImageLoaded(true)}
           loading="lazy"
+          decoding="async"
         />
         
-        {/* Loading placeholder */}
-        {!imageLoaded && (
+        {/* Loading placeholder: the preview captured at upload, blurred over the
+            image's colour and faded out as the image fades in */}
+        {hasPreview ? (
+          <div
+            className={`absolute inset-0 overflow-hidden pointer-events-none transition-opacity duration-500 ${
+              imageLoaded ? 'opacity-0' : 'opacity-100'
+            }`}
+            style={{ backgroundColor: pin.dominant_color ?? undefined }}
+          >
+            {pin.placeholder && (
+              <img src={pin.placeholder} alt="" aria-hidden className="w-full h-full object-cover blur-lg scale-110" />
+            )}
+          </div>
+        ) : !imageLoaded && (
           <div className="absolute inset-0 bg-muted animate-pulse flex items-center justify-center">
             <div className="w-8 h-8 bg-muted-foreground/20 rounded-full"></div>
           </div>
@@ -161,6 +104,8 @@ const PinCard: React.FC<PinCardProps> = ({
 
         {/* Overlay with actions */}
         <div className="absolute inset-0 bg-black/0 group-hover:bg-black/20 transition-all duration-300">
+          <Link to={`/pin/${pin.id}`} className="absolute inset-0" aria-label={pin.title} />
+
           <div className="absolute top-4 right-4 flex space-x-2 opacity-0 group-hover:opacity-100 transition-opacity duration-300">
             <Button
               size="sm"
@@ -186,6 +131,11 @@ const PinCard: React.FC<PinCardProps> = ({
                   <Download className="mr-2 h-4 w-4" />
                   Download
                 </DropdownMenuItem>
+                <DropdownMenuItem onClick={handleCopyLink}>
+                  <Link2 className="mr-2 h-4 w-4" />
+                  Copy link
+                </DropdownMenuItem>
+                {menuItems}
                 {isOwner && (
                   <DropdownMenuItem onClick={handleDelete} className="text-destructive">
                     Delete Pin
@@ -212,7 +162,12 @@ const PinCard: React.FC<PinCardProps> = ({
       {/* Content */}
       <div className="p-4">
         <h3 className="font-semibold text-sm text-foreground mb-2 line-clamp-2">
-          {pin.title}
+          {pin.visibility === 'secret' && (
+            <Lock className="inline w-3 h-3 mr-1 -mt-0.5 text-muted-foreground" aria-label="Secret pin" />
+          )}
+          <Link to={`/pin/${pin.id}`} className="hover:underline">
+            {pin.title}
+          </Link>
         </h3>
         
         {pin.description && (
@@ -225,29 +180,67 @@ const PinCard: React.FC<PinCardProps> = ({
         {pin.tags && pin.tags.length > 0 && (
           <div className="flex flex-wrap gap-1 mb-3">
             {pin.tags.slice(0, 3).map((tag, index) => (
-              <span
+              <Link
                 key={index}
-                className="inline-block px-2 py-1 bg-muted rounded-full text-xs text-muted-foreground"
+                to={tagPath(tag)}
+                className="inline-block px-2 py-1 bg-muted rounded-full text-xs text-muted-foreground hover:bg-muted/70 hover:text-foreground transition-colors"
               >
                 #{tag}
-              </span>
+              </Link>
             ))}
           </div>
         )}
 
         {/* User info */}
-        <div className="flex items-center">
-          <Avatar className="h-6 w-6 mr-2">
-            <AvatarImage src={pin.profiles?.avatar_url} />
-            <AvatarFallback className="text-xs">
-              {pin.profiles?.username?.charAt(0).toUpperCase() || 'U'}
-            </AvatarFallback>
-          </Avatar>
-          <span className="text-xs text-muted-foreground truncate">
-            {pin.profiles?.display_name || pin.profiles?.username || 'Unknown User'}
-          </span>
+        <div className="flex items-center justify-between gap-2">
+          <Link
+            to={pin.profiles?.username ? `/u/${pin.profiles.username}` : '#'}
+            className="flex items-center min-w-0 hover:opacity-80 transition-opacity"
+          >
+            <Avatar className="h-6 w-6 mr-2">
+              <AvatarImage src={pin.profiles?.avatar_url} />
+              <AvatarFallback className="text-xs">
+                {pin.profiles?.username?.charAt(0).toUpperCase() || 'U'}
+              </AvatarFallback>
+            </Avatar>
+            <span className="text-xs text-muted-foreground truncate">
+              {pin.profiles?.display_name || pin.profiles?.username || 'Unknown User'}
+            </span>
+          </Link>
+
+          <div className="flex items-center gap-2 shrink-0 text-xs text-muted-foreground">
+            {likeCount > 0 && (
+              <span className="flex items-center" aria-label={`${likeCount} ${likeCount === 1 ? 'like' : 'likes'}`}>
+                <Heart className="w-3.5 h-3.5 mr-1" />
+                {likeCount}
+              </span>
+            )}
+            {!!pin.save_count && (
+              <span className="flex items-center" aria-label={`${pin.save_count} ${pin.save_count === 1 ? 'save' : 'saves'}`}>
+                <Bookmark className="w-3.5 h-3.5 mr-1" />
+                {pin.save_count}
+              </span>
+            )}
+            {!!pin.comment_count && (
+              <Link
+                to={`/pin/${pin.id}#comments`}
+                className="flex items-center hover:text-foreground transition-colors"
+                aria-label={`${pin.comment_count} ${pin.comment_count === 1 ? 'comment' : 'comments'}`}
+              >
+                <MessageCircle className="w-3.5 h-3.5 mr-1" />
+                {pin.comment_count}
+              </Link>
+            )}
+          </div>
         </div>
       </div>
+
+      <SaveToBoardDialog
+        pin={pin}
+        open={saveDialogOpen}
+        onOpenChange={setSaveDialogOpen}
+        onSavedChange={handleSavedChange}
+      />
     </div>
   );
 };
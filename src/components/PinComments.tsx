@@ -0,0 +1,342 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Link, useLocation } from 'react-router-dom';
+import { formatDistanceToNow } from 'date-fns';
+import { useAuth } from '@/contexts/AuthContext';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle
+} from '@/components/ui/alert-dialog';
+import {
+  COMMENT_MAX_LENGTH,
+  fetchComments,
+  toThreads,
+  type PinComment
+} from '@/lib/comments';
+import { toast } from '@/hooks/use-toast';
+import { Loader2 } from 'lucide-react';
+import type { Pin } from '@/types/pin';
+
+interface PinCommentsProps {
+  pin: Pin;
+}
+
+const PinComments: React.FC<PinCommentsProps> = ({ pin }) => {
+  const { user, profile } = useAuth();
+  const location = useLocation();
+  const sectionRef = useRef<HTMLElement>(null);
+  const [comments, setComments] = useState<PinComment[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [body, setBody] = useState('');
+  const [posting, setPosting] = useState(false);
+  const [replyingTo, setReplyingTo] = useState<PinComment | null>(null);
+  const [replyBody, setReplyBody] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editBody, setEditBody] = useState('');
+  const [pendingDelete, setPendingDelete] = useState<PinComment | null>(null);
+
+  const isPinOwner = pin.user_id === user?.id;
+  const threads = useMemo(() => toThreads(comments), [comments]);
+
+  useEffect(() => {
+    const loadComments = async () => {
+      setLoading(true);
+
+      try {
+        setComments(await fetchComments(pin.id));
+      } catch (error) {
+        toast({
+          title: "Error",
+          description: "Failed to load comments",
+          variant: "destructive"
+        });
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadComments();
+  }, [pin.id]);
+
+  useEffect(() => {
+    if (!loading && location.hash === '#comments') {
+      sectionRef.current?.scrollIntoView({ behavior: 'smooth' });
+    }
+  }, [loading, location.hash]);
+
+  const postComment = async (text: string, parentId: string | null) => {
+    if (!user || !text.trim()) return false;
+
+    setPosting(true);
+
+    try {
+      const { data, error } = await supabase
+        .from('comments')
+        .insert({ pin_id: pin.id, user_id: user.id, parent_id: parentId, body: text.trim() })
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      const author = profile && {
+        username: profile.username,
+        display_name: profile.display_name,
+        avatar_url: profile.avatar_url
+      };
+      setComments(prev => [...prev, { ...data, profile: author }]);
+      return true;
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to post comment",
+        variant: "destructive"
+      });
+      return false;
+    } finally {
+      setPosting(false);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (await postComment(body, null)) {
+      setBody('');
+    }
+  };
+
+  const handleReply = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!replyingTo) return;
+
+    if (await postComment(replyBody, replyingTo.id)) {
+      setReplyingTo(null);
+      setReplyBody('');
+    }
+  };
+
+  const startReply = (comment: PinComment) => {
+    setEditingId(null);
+    setReplyingTo(comment);
+    // Replies to a reply land in the same thread, so address its author
+    setReplyBody(comment.parent_id && comment.profile ? `@${comment.profile.username} ` : '');
+  };
+
+  const startEdit = (comment: PinComment) => {
+    setReplyingTo(null);
+    setEditingId(comment.id);
+    setEditBody(comment.body);
+  };
+
+  const handleEdit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!editingId || !editBody.trim()) return;
+
+    const { data, error } = await supabase
+      .from('comments')
+      .update({ body: editBody.trim() })
+      .eq('id', editingId)
+      .select()
+      .single();
+
+    if (error) {
+      toast({
+        title: "Error",
+        description: "Failed to edit comment",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    setComments(prev => prev.map(c => c.id === data.id ? { ...c, ...data } : c));
+    setEditingId(null);
+  };
+
+  const handleDelete = async () => {
+    if (!pendingDelete) return;
+
+    const { error } = await supabase
+      .from('comments')
+      .delete()
+      .eq('id', pendingDelete.id);
+
+    if (error) {
+      toast({
+        title: "Error",
+        description: "Failed to delete comment",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    // Replies go with their parent
+    const deletedId = pendingDelete.id;
+    setComments(prev => prev.filter(c => c.id !== deletedId && c.parent_id !== deletedId));
+    setPendingDelete(null);
+  };
+
+  const renderComment = (comment: PinComment) => {
+    const isAuthor = comment.user_id === user?.id;
+    const author = comment.profile;
+
+    return (
+      <div key={comment.id} className="flex gap-3">
+        <Link to={author ? `/u/${author.username}` : '#'} className="shrink-0">
+          <Avatar className="h-8 w-8">
+            <AvatarImage src={author?.avatar_url} />
+            <AvatarFallback className="text-xs">
+              {author?.username?.charAt(0).toUpperCase() || 'U'}
+            </AvatarFallback>
+          </Avatar>
+        </Link>
+
+        <div className="flex-1 min-w-0">
+          {editingId === comment.id ? (
+            <form onSubmit={handleEdit} className="space-y-2">
+              <Textarea
+                value={editBody}
+                rows={2}
+                maxLength={COMMENT_MAX_LENGTH}
+                onChange={(e) => setEditBody(e.target.value)}
+                autoFocus
+              />
+              <div className="flex gap-2">
+                <Button type="submit" size="sm" disabled={!editBody.trim()}>Save</Button>
+                <Button type="button" size="sm" variant="ghost" onClick={() => setEditingId(null)}>
+                  Cancel
+                </Button>
+              </div>
+            </form>
+          ) : (
+            <>
+              <p className="text-sm text-foreground break-words whitespace-pre-line">
+                <Link to={author ? `/u/${author.username}` : '#'} className="font-semibold mr-2 hover:underline">
+                  {author?.display_name || author?.username || 'Unknown User'}
+                </Link>
+                {comment.body}
+              </p>
+              <div className="flex items-center gap-3 mt-1 text-xs text-muted-foreground">
+                <span>
+                  {formatDistanceToNow(new Date(comment.created_at), { addSuffix: true })}
+                  {comment.edited && ' (edited)'}
+                </span>
+                {user && (
+                  <button type="button" className="font-medium hover:text-foreground" onClick={() => startReply(comment)}>
+                    Reply
+                  </button>
+                )}
+                {isAuthor && (
+                  <button type="button" className="font-medium hover:text-foreground" onClick={() => startEdit(comment)}>
+                    Edit
+                  </button>
+                )}
+                {(isAuthor || isPinOwner) && (
+                  <button type="button" className="font-medium hover:text-destructive" onClick={() => setPendingDelete(comment)}>
+                    Delete
+                  </button>
+                )}
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <section id="comments" ref={sectionRef} className="mt-8 scroll-mt-24">
+      <h2 className="text-lg font-semibold text-foreground mb-4">
+        {comments.length === 0 ? 'Comments' : `${comments.length} ${comments.length === 1 ? 'comment' : 'comments'}`}
+      </h2>
+
+      {loading ? (
+        <div className="flex justify-center py-4">
+          <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+        </div>
+      ) : (
+        <div className="space-y-5 max-h-[28rem] overflow-y-auto pr-1">
+          {threads.length === 0 && (
+            <p className="text-sm text-muted-foreground">No comments yet. Start the conversation!</p>
+          )}
+          {threads.map(({ comment, replies }) => {
+            const replyingHere = !!replyingTo && (replyingTo.id === comment.id || replyingTo.parent_id === comment.id);
+
+            return (
+              <div key={comment.id} className="space-y-3">
+                {renderComment(comment)}
+
+                {(replies.length > 0 || replyingHere) && (
+                  <div className="ml-11 space-y-3">
+                    {replies.map(renderComment)}
+
+                    {replyingHere && (
+                      <form onSubmit={handleReply} className="space-y-2">
+                        <Textarea
+                          placeholder="Add a reply"
+                          value={replyBody}
+                          rows={2}
+                          maxLength={COMMENT_MAX_LENGTH}
+                          onChange={(e) => setReplyBody(e.target.value)}
+                          autoFocus
+                        />
+                        <div className="flex gap-2">
+                          <Button type="submit" size="sm" disabled={!replyBody.trim() || posting}>Reply</Button>
+                          <Button type="button" size="sm" variant="ghost" onClick={() => setReplyingTo(null)}>
+                            Cancel
+                          </Button>
+                        </div>
+                      </form>
+                    )}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {user && (
+        <form onSubmit={handleSubmit} className="flex items-start gap-2 mt-6">
+          <Textarea
+            placeholder="Add a comment"
+            value={body}
+            rows={1}
+            maxLength={COMMENT_MAX_LENGTH}
+            onChange={(e) => setBody(e.target.value)}
+            className="min-h-10"
+          />
+          <Button type="submit" disabled={!body.trim() || posting}>
+            Post
+          </Button>
+        </form>
+      )}
+
+      <AlertDialog open={!!pendingDelete} onOpenChange={(open) => !open && setPendingDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete comment?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {pendingDelete && !pendingDelete.parent_id
+                ? 'This comment and its replies will be removed permanently.'
+                : 'This comment will be removed permanently.'}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete}>Delete</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </section>
+  );
+};
+
+export default PinComments;
@@ -0,0 +1,236 @@
+import React, { useEffect, useState } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import { fetchEditableBoardSummaries, type BoardSummary } from '@/lib/boards';
+import { toast } from '@/hooks/use-toast';
+import { Check, Loader2, Plus } from 'lucide-react';
+import type { Pin } from '@/types/pin';
+
+interface SaveToBoardDialogProps {
+  pin: Pin;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSavedChange?: (saved: boolean) => void;
+}
+
+const SaveToBoardDialog: React.FC<SaveToBoardDialogProps> = ({
+  pin,
+  open,
+  onOpenChange,
+  onSavedChange
+}) => {
+  const { user } = useAuth();
+  const userId = user?.id;
+  const [boards, setBoards] = useState<BoardSummary[]>([]);
+  const [savedBoardIds, setSavedBoardIds] = useState<Set<string>>(new Set());
+  // Boards the viewer saved the pin into themselves; only these make the pin
+  // "saved" for them, as with viewer_saved in the feeds
+  const [ownSavedBoardIds, setOwnSavedBoardIds] = useState<Set<string>>(new Set());
+  const [loading, setLoading] = useState(true);
+  const [pendingBoardId, setPendingBoardId] = useState<string | null>(null);
+  const [newBoardName, setNewBoardName] = useState('');
+  const [creating, setCreating] = useState(false);
+
+  useEffect(() => {
+    if (!open || !userId) return;
+
+    const fetchBoards = async () => {
+      setLoading(true);
+
+      try {
+        const summaries = await fetchEditableBoardSummaries(userId);
+
+        // Collaborators may already have saved the pin into a shared board
+        const { data: saves, error: savesError } = await supabase
+          .from('saves')
+          .select('board_id, user_id')
+          .eq('pin_id', pin.id)
+          .in('board_id', summaries.map(board => board.id));
+
+        if (savesError) throw savesError;
+
+        setBoards(summaries);
+        setSavedBoardIds(new Set((saves || []).map(save => save.board_id)));
+        setOwnSavedBoardIds(new Set(
+          (saves || []).filter(save => save.user_id === userId).map(save => save.board_id)
+        ));
+      } catch (error) {
+        toast({
+          title: "Error",
+          description: "Failed to load your boards",
+          variant: "destructive"
+        });
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchBoards();
+  }, [open, userId, pin.id]);
+
+  const updateSavedBoards = (next: Set<string>, nextOwn: Set<string>) => {
+    setSavedBoardIds(next);
+    setOwnSavedBoardIds(nextOwn);
+    onSavedChange?.(nextOwn.size > 0);
+  };
+
+  const toggleBoard = async (boardId: string) => {
+    if (!userId) return;
+
+    setPendingBoardId(boardId);
+    const next = new Set(savedBoardIds);
+    const nextOwn = new Set(ownSavedBoardIds);
+
+    try {
+      if (savedBoardIds.has(boardId)) {
+        const { error } = await supabase
+          .from('saves')
+          .delete()
+          .eq('board_id', boardId)
+          .eq('pin_id', pin.id);
+        if (error) throw error;
+        next.delete(boardId);
+        nextOwn.delete(boardId);
+      } else {
+        const { error } = await supabase
+          .from('saves')
+          .insert({ user_id: userId, pin_id: pin.id, board_id: boardId });
+        if (error) throw error;
+        next.add(boardId);
+        nextOwn.add(boardId);
+      }
+
+      updateSavedBoards(next, nextOwn);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to update save status",
+        variant: "destructive"
+      });
+    } finally {
+      setPendingBoardId(null);
+    }
+  };
+
+  const handleCreateBoard = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!userId || !newBoardName.trim()) return;
+
+    setCreating(true);
+
+    try {
+      const { data: board, error: boardError } = await supabase
+        .from('boards')
+        .insert({ user_id: userId, name: newBoardName.trim() })
+        .select()
+        .single();
+
+      if (boardError) throw boardError;
+
+      const { error: saveError } = await supabase
+        .from('saves')
+        .insert({ user_id: userId, pin_id: pin.id, board_id: board.id });
+
+      if (saveError) throw saveError;
+
+      setBoards(prev => [{ ...board, pin_count: 1, cover_url: pin.image_url }, ...prev]);
+      updateSavedBoards(new Set(savedBoardIds).add(board.id), new Set(ownSavedBoardIds).add(board.id));
+      setNewBoardName('');
+      toast({
+        title: "Saved",
+        description: `Pin saved to ${board.name}`
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to create board",
+        variant: "destructive"
+      });
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Save to board</DialogTitle>
+          <DialogDescription className="line-clamp-1">{pin.title}</DialogDescription>
+        </DialogHeader>
+
+        {loading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <div className="max-h-72 overflow-y-auto -mx-2">
+            {boards.length === 0 && (
+              <p className="text-sm text-muted-foreground text-center py-6">
+                You don't have any boards yet. Create one below.
+              </p>
+            )}
+            {boards.map((board) => {
+              const isSaved = savedBoardIds.has(board.id);
+              return (
+                <button
+                  key={board.id}
+                  type="button"
+                  onClick={() => toggleBoard(board.id)}
+                  disabled={pendingBoardId !== null}
+                  className="w-full flex items-center gap-3 px-2 py-2 rounded-lg hover:bg-muted transition-colors text-left disabled:opacity-60"
+                >
+                  <div className="w-12 h-12 rounded-lg bg-muted overflow-hidden shrink-0">
+                    {board.cover_url && (
+                      <img src={board.cover_url} alt="" className="w-full h-full object-cover" />
+                    )}
+                  </div>
+                  <div className="flex-1 min-w-0">
+                    <p className="font-medium text-sm text-foreground truncate">{board.name}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {board.pin_count} {board.pin_count === 1 ? 'pin' : 'pins'}
+                    </p>
+                  </div>
+                  {pendingBoardId === board.id ? (
+                    <Loader2 className="w-4 h-4 animate-spin text-muted-foreground" />
+                  ) : isSaved ? (
+                    <span className="flex items-center text-xs font-medium text-primary">
+                      <Check className="w-4 h-4 mr-1" />
+                      Saved
+                    </span>
+                  ) : (
+                    <span className="text-xs font-medium text-muted-foreground">Save</span>
+                  )}
+                </button>
+              );
+            })}
+          </div>
+        )}
+
+        <form onSubmit={handleCreateBoard} className="flex gap-2 pt-2 border-t border-border">
+          <Input
+            placeholder="New board name"
+            value={newBoardName}
+            maxLength={50}
+            onChange={(e) => setNewBoardName(e.target.value)}
+          />
+          <Button type="submit" disabled={!newBoardName.trim() || creating}>
+            <Plus className="w-4 h-4 mr-2" />
+            Create
+          </Button>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default SaveToBoardDialog;
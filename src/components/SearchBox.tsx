@@ -0,0 +1,242 @@
+import { useEffect, useRef, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Command as CommandPrimitive } from 'cmdk';
+import { Clock, Hash, Search, Trash2 } from 'lucide-react';
+import { useAuth } from '@/contexts/AuthContext';
+import { Command, CommandGroup, CommandItem, CommandList } from '@/components/ui/command';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { useDebouncedValue } from '@/hooks/use-debounced-value';
+import { toast } from '@/hooks/use-toast';
+import { searchPath } from '@/lib/search';
+import {
+  clearSearchHistory,
+  fetchRecentSearches,
+  fetchTagSuggestions,
+  fetchUserSuggestions,
+  recordSearch,
+  suggestionTerm,
+  type TagSuggestion,
+  type UserSuggestion
+} from '@/lib/search-suggestions';
+import { tagPath } from '@/lib/tags';
+
+const SUGGESTION_DELAY = 200;
+
+interface SearchBoxProps {
+  initialQuery?: string;
+}
+
+const SearchBox = ({ initialQuery = '' }: SearchBoxProps) => {
+  const { user } = useAuth();
+  const userId = user?.id;
+  const navigate = useNavigate();
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [query, setQuery] = useState(initialQuery);
+  const [open, setOpen] = useState(false);
+  const [tags, setTags] = useState<TagSuggestion[]>([]);
+  const [users, setUsers] = useState<UserSuggestion[]>([]);
+  const [recentSearches, setRecentSearches] = useState<string[]>([]);
+  const debouncedQuery = useDebouncedValue(query, SUGGESTION_DELAY);
+  const trimmedQuery = query.trim();
+
+  // Follow the URL when moving between searches with back and forward
+  useEffect(() => {
+    setQuery(initialQuery);
+  }, [initialQuery]);
+
+  useEffect(() => {
+    if (!open || !userId) return;
+    let cancelled = false;
+
+    const loadRecentSearches = async () => {
+      try {
+        const searches = await fetchRecentSearches(userId);
+        if (!cancelled) setRecentSearches(searches);
+      } catch (error) {
+        console.error('Error loading recent searches:', error);
+      }
+    };
+
+    loadRecentSearches();
+    return () => {
+      cancelled = true;
+    };
+  }, [open, userId]);
+
+  useEffect(() => {
+    const { kind, prefix } = suggestionTerm(debouncedQuery);
+    if (!open || !prefix) {
+      setTags([]);
+      setUsers([]);
+      return;
+    }
+    let cancelled = false;
+
+    const loadSuggestions = async () => {
+      try {
+        const [tagResults, userResults] = await Promise.all([
+          kind === 'user' ? [] : fetchTagSuggestions(prefix),
+          kind === 'tag' ? [] : fetchUserSuggestions(prefix)
+        ]);
+        if (cancelled) return;
+
+        setTags(tagResults);
+        setUsers(userResults);
+      } catch (error) {
+        console.error('Error loading search suggestions:', error);
+      }
+    };
+
+    loadSuggestions();
+    return () => {
+      cancelled = true;
+    };
+  }, [debouncedQuery, open]);
+
+  const close = () => {
+    setOpen(false);
+    inputRef.current?.blur();
+  };
+
+  const runSearch = (value: string) => {
+    const search = value.trim();
+    if (!search) return;
+
+    setQuery(search);
+    close();
+    navigate(searchPath(search));
+
+    if (userId) {
+      recordSearch(userId, search).catch(error => {
+        console.error('Error recording search:', error);
+      });
+    }
+  };
+
+  const openPath = (path: string) => {
+    close();
+    navigate(path);
+  };
+
+  const handleClearHistory = async () => {
+    if (!userId) return;
+
+    try {
+      await clearSearchHistory(userId);
+      setRecentSearches([]);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to clear recent searches",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const matchingRecentSearches = recentSearches.filter(search => (
+    !trimmedQuery ||
+    (search !== trimmedQuery && search.toLowerCase().includes(trimmedQuery.toLowerCase()))
+  ));
+
+  const hasSuggestions = !!trimmedQuery || matchingRecentSearches.length > 0;
+
+  return (
+    <Command
+      shouldFilter={false}
+      loop
+      className="relative overflow-visible bg-transparent"
+      onKeyDown={(e) => {
+        if (e.key === 'Escape') close();
+      }}
+    >
+      <div className="relative">
+        <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-muted-foreground w-4 h-4" />
+        <CommandPrimitive.Input
+          ref={inputRef}
+          value={query}
+          onValueChange={(value) => {
+            setQuery(value);
+            setOpen(true);
+          }}
+          onFocus={() => setOpen(true)}
+          onBlur={() => setOpen(false)}
+          placeholder="Search for ideas..."
+          className="flex h-10 w-full rounded-md px-3 py-2 pl-10 text-base md:text-sm bg-muted/50 placeholder:text-muted-foreground focus:bg-background focus:outline-none focus:ring-2 focus:ring-primary/20"
+        />
+      </div>
+
+      {open && hasSuggestions && (
+        <CommandList
+          // Keep focus in the input while clicking a suggestion
+          onMouseDown={(e) => e.preventDefault()}
+          className="absolute top-full left-0 right-0 z-50 mt-2 max-h-96 rounded-md border border-border bg-popover shadow-md"
+        >
+          {trimmedQuery && (
+            <CommandGroup>
+              <CommandItem value={`search:${trimmedQuery}`} onSelect={() => runSearch(query)}>
+                <Search className="mr-2 h-4 w-4 text-muted-foreground" />
+                <span className="truncate">Search for “{trimmedQuery}”</span>
+              </CommandItem>
+            </CommandGroup>
+          )}
+
+          {tags.length > 0 && (
+            <CommandGroup heading="Tags">
+              {tags.map(({ tag, pin_count }) => (
+                <CommandItem
+                  key={tag}
+                  value={`tag:${tag}`}
+                  onSelect={() => openPath(tagPath(tag))}
+                >
+                  <Hash className="mr-2 h-4 w-4 text-muted-foreground" />
+                  <span className="truncate">{tag}</span>
+                  <span className="ml-auto pl-2 text-xs text-muted-foreground">
+                    {pin_count} {pin_count === 1 ? 'pin' : 'pins'}
+                  </span>
+                </CommandItem>
+              ))}
+            </CommandGroup>
+          )}
+
+          {users.length > 0 && (
+            <CommandGroup heading="People">
+              {users.map(profile => (
+                <CommandItem
+                  key={profile.user_id}
+                  value={`user:${profile.username}`}
+                  onSelect={() => openPath(`/u/${profile.username}`)}
+                >
+                  <Avatar className="mr-2 h-6 w-6">
+                    <AvatarImage src={profile.avatar_url || undefined} />
+                    <AvatarFallback className="text-xs">
+                      {(profile.display_name || profile.username).charAt(0).toUpperCase()}
+                    </AvatarFallback>
+                  </Avatar>
+                  <span className="truncate font-medium">{profile.display_name || profile.username}</span>
+                  <span className="ml-2 truncate text-xs text-muted-foreground">@{profile.username}</span>
+                </CommandItem>
+              ))}
+            </CommandGroup>
+          )}
+
+          {matchingRecentSearches.length > 0 && (
+            <CommandGroup heading="Recent searches">
+              {matchingRecentSearches.map(search => (
+                <CommandItem key={search} value={`recent:${search}`} onSelect={() => runSearch(search)}>
+                  <Clock className="mr-2 h-4 w-4 text-muted-foreground" />
+                  <span className="truncate">{search}</span>
+                </CommandItem>
+              ))}
+              <CommandItem value="clear-history" onSelect={handleClearHistory} className="text-muted-foreground">
+                <Trash2 className="mr-2 h-4 w-4" />
+                Clear recent searches
+              </CommandItem>
+            </CommandGroup>
+          )}
+        </CommandList>
+      )}
+    </Command>
+  );
+};
+
+export default SearchBox;
@@ -0,0 +1,38 @@
+import { useNavigate } from 'react-router-dom';
+import { X } from 'lucide-react';
+import { searchChips, stringifySearchQuery, type SearchQuery } from '@/lib/search-query';
+import { searchPath } from '@/lib/search';
+
+interface SearchFilterChipsProps {
+  query: SearchQuery;
+}
+
+const SearchFilterChips = ({ query }: SearchFilterChipsProps) => {
+  const navigate = useNavigate();
+  const chips = searchChips(query);
+
+  if (chips.length === 0) return null;
+
+  return (
+    <div className="flex flex-wrap gap-2 px-4 pt-4">
+      {chips.map(chip => (
+        <span
+          key={chip.key}
+          className="inline-flex items-center gap-1 pl-3 pr-1 py-1 bg-muted rounded-full text-sm text-muted-foreground"
+        >
+          {chip.label}
+          <button
+            type="button"
+            onClick={() => navigate(searchPath(stringifySearchQuery(chip.without)))}
+            className="p-0.5 rounded-full hover:bg-background hover:text-foreground transition-colors"
+            aria-label={`Remove ${chip.label}`}
+          >
+            <X className="w-3.5 h-3.5" />
+          </button>
+        </span>
+      ))}
+    </div>
+  );
+};
+
+export default SearchFilterChips;
@@ -0,0 +1,81 @@
+import React, { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+
+interface SectionFormDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  initialName?: string;
+  // Resolves to false when the change failed and the dialog should stay open
+  onSubmit: (name: string) => Promise<boolean>;
+}
+
+// Names a new board section, or renames an existing one
+const SectionFormDialog: React.FC<SectionFormDialogProps> = ({
+  open,
+  onOpenChange,
+  initialName,
+  onSubmit
+}) => {
+  const [name, setName] = useState('');
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      setName(initialName || '');
+    }
+  }, [open, initialName]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    setLoading(true);
+    try {
+      if (await onSubmit(name.trim())) {
+        onOpenChange(false);
+      }
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>{initialName ? 'Rename section' : 'Add section'}</DialogTitle>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-6">
+          <div className="space-y-2">
+            <Label htmlFor="section-name">Name</Label>
+            <Input
+              id="section-name"
+              placeholder='Like "Kitchen" or "Colour palettes"'
+              maxLength={50}
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              required
+            />
+          </div>
+
+          <DialogFooter>
+            <Button type="submit" disabled={!name.trim() || loading}>
+              {loading ? "Saving..." : initialName ? "Save" : "Add"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default SectionFormDialog;
@@ -0,0 +1,67 @@
+import React, { useEffect, useState } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { Button, type ButtonProps } from '@/components/ui/button';
+import { followTag, isFollowingTag, unfollowTag } from '@/lib/interests';
+import { toast } from '@/hooks/use-toast';
+
+interface TagFollowButtonProps {
+  tagId: string;
+  size?: ButtonProps['size'];
+  className?: string;
+}
+
+// Follow/unfollow toggle for a tag; renders nothing for signed-out users
+const TagFollowButton: React.FC<TagFollowButtonProps> = ({ tagId, size, className }) => {
+  const { user } = useAuth();
+  const userId = user?.id;
+  const [following, setFollowing] = useState(false);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (!userId) return;
+
+    setLoading(true);
+    isFollowingTag(userId, tagId)
+      .then(setFollowing)
+      .catch(() => setFollowing(false))
+      .finally(() => setLoading(false));
+  }, [userId, tagId]);
+
+  if (!userId) return null;
+
+  const handleClick = async () => {
+    setLoading(true);
+
+    try {
+      if (following) {
+        await unfollowTag(userId, tagId);
+      } else {
+        await followTag(userId, tagId);
+      }
+
+      setFollowing(!following);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: following ? "Failed to unfollow tag" : "Failed to follow tag",
+        variant: "destructive"
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Button
+      size={size}
+      variant={following ? 'secondary' : 'default'}
+      className={className}
+      disabled={loading}
+      onClick={handleClick}
+    >
+      {following ? 'Following' : 'Follow'}
+    </Button>
+  );
+};
+
+export default TagFollowButton;
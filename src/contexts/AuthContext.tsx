@@ -1,14 +1,22 @@
 import React, { createContext, useContext, useEffect, useState } from 'react';
 import { User, Session } from '@supabase/supabase-js';
 import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import { sanitizeUsername } from '@/lib/profile';
+
+export type Profile = Tables<'profiles'>;
 
 interface AuthContextType {
   user: User | null;
   session: Session | null;
+  profile: Profile | null;
+  // The last attempt to load (or create) the profile failed
+  profileError: boolean;
   loading: boolean;
-  signIn: (email: string, password: string) => Promise<{ error: any }>;
+  signIn: (email: string, password: string, redirectTo?: string) => Promise<{ error: any }>;
   signUp: (email: string, password: string, username: string) => Promise<{ error: any }>;
   signOut: () => Promise<void>;
+  refreshProfile: () => Promise<void>;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
@@ -26,6 +34,58 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
   const [session, setSession] = useState<Session | null>(null);
   const [loading, setLoading] = useState(true);
 
+  const [profile, setProfile] = useState<Profile | null>(null);
+  const [profileError, setProfileError] = useState(false);
+
+  // Load the user's profile, creating it on first sign in
+  const loadProfile = async (authUser: User) => {
+    setProfileError(false);
+
+    try {
+      const { data, error } = await supabase
+        .from('profiles')
+        .select('*')
+        .eq('user_id', authUser.id)
+        .maybeSingle();
+
+      if (error) throw error;
+      if (data) {
+        setProfile(data);
+        return;
+      }
+
+      const username = sanitizeUsername(authUser.user_metadata?.username || authUser.email?.split('@')[0] || 'user');
+      let { data: created, error: insertError } = await supabase
+        .from('profiles')
+        .insert({
+          user_id: authUser.id,
+          username: username,
+          display_name: username
+        })
+        .select()
+        .single();
+
+      // Username already taken, fall back to a suffixed one
+      if (insertError?.code === '23505') {
+        ({ data: created, error: insertError } = await supabase
+          .from('profiles')
+          .insert({
+            user_id: authUser.id,
+            username: `${username.slice(0, 26)}${Math.floor(1000 + Math.random() * 9000)}`,
+            display_name: username
+          })
+          .select()
+          .single());
+      }
+
+      if (insertError) throw insertError;
+      setProfile(created);
+    } catch (err) {
+      console.error('Error loading profile:', err);
+      setProfileError(true);
+    }
+  };
+
   useEffect(() => {
     // Set up auth state listener
     const { data: { subscription } } = supabase.auth.onAuthStateChange(
@@ -33,31 +93,18 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
         setSession(session);
         setUser(session?.user ?? null);
         
-        // Create profile for new users
-        if (event === 'SIGNED_IN' && session?.user) {
-          setTimeout(async () => {
-            try {
-              const { error } = await supabase
-                .from('profiles')
-                .select('id')
-                .eq('user_id', session.user.id)
-                .maybeSingle();
-              
-              if (error && error.code === 'PGRST116') {
-                // Profile doesn't exist, create it
-                const username = session.user.email?.split('@')[0] || 'user';
-                await supabase
-                  .from('profiles')
-                  .insert({
-                    user_id: session.user.id,
-                    username: username,
-                    display_name: username
-                  });
-              }
-            } catch (err) {
-              console.error('Error creating profile:', err);
-            }
-          }, 0);
+        if (session?.user) {
+          // Defer Supabase calls out of the auth callback
+          if (event === 'SIGNED_IN' || event === 'INITIAL_SESSION' || event === 'USER_UPDATED') {
+            setTimeout(() => loadProfile(session.user), 0);
+          }
+        } else {
+          setProfile(null);
+          setProfileError(false);
+          // Signed out elsewhere or the session expired
+          if (event === 'SIGNED_OUT') {
+            setTimeout(() => supabase.removeAllChannels(), 0);
+          }
         }
         
         setLoading(false);
@@ -74,8 +121,13 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     return () => subscription.unsubscribe();
   }, []);
 
-  const signIn = async (email: string, password: string) => {
-    const redirectUrl = `${window.location.origin}/`;
+  const refreshProfile = async () => {
+    if (user) {
+      await loadProfile(user);
+    }
+  };
+
+  const signIn = async (email: string, password: string, redirectTo = '/') => {
     const { error } = await supabase.auth.signInWithPassword({
       email,
       password,
@@ -83,7 +135,7 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     
     if (!error) {
       setTimeout(() => {
-        window.location.href = '/';
+        window.location.href = redirectTo;
       }, 100);
     }
     
@@ -91,7 +143,8 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
   };
 
   const signUp = async (email: string, password: string, username: string) => {
-    const redirectUrl = `${window.location.origin}/`;
+    // New accounts start by picking their interests
+    const redirectUrl = `${window.location.origin}/welcome`;
     const { error } = await supabase.auth.signUp({
       email,
       password,
@@ -105,7 +158,7 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     
     if (!error) {
       setTimeout(() => {
-        window.location.href = '/';
+        window.location.href = '/welcome';
       }, 100);
     }
     
@@ -114,6 +167,8 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
 
   const signOut = async () => {
     try {
+      // Drop realtime subscriptions before the session goes away
+      await supabase.removeAllChannels();
       await supabase.auth.signOut({ scope: 'global' });
       window.location.href = '/auth';
     } catch (error) {
@@ -125,10 +180,13 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
   const value = {
     user,
     session,
+    profile,
+    profileError,
     loading,
     signIn,
     signUp,
     signOut,
+    refreshProfile,
   };
 
   return (
@@ -0,0 +1,13 @@
+import { useEffect, useState } from 'react';
+
+// The value once it has stopped changing for `delay` milliseconds
+export const useDebouncedValue = <T>(value: T, delay: number): T => {
+  const [debounced, setDebounced] = useState(value);
+
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebounced(value), delay);
+    return () => clearTimeout(timeout);
+  }, [value, delay]);
+
+  return debounced;
+};
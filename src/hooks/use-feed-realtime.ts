@@ -0,0 +1,39 @@
+import { useEffect, useRef } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+
+interface FeedRealtimeHandlers {
+  onPinInserted?: (pin: Tables<'pins'>) => void;
+  // Also fires when a like, save or comment moves one of the pin's counters
+  onPinUpdated?: (pin: Tables<'pins'>) => void;
+  onPinDeleted?: (pinId: string) => void;
+}
+
+// Subscribes to pin changes for as long as the component is mounted.
+// Handlers are read through a ref so re-renders do not resubscribe.
+export const useFeedRealtime = (handlers: FeedRealtimeHandlers, enabled = true) => {
+  const handlersRef = useRef(handlers);
+  handlersRef.current = handlers;
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const channel = supabase
+      .channel('home-feed')
+      .on('postgres_changes', { event: 'INSERT', schema: 'public', table: 'pins' }, (payload) => {
+        handlersRef.current.onPinInserted?.(payload.new as Tables<'pins'>);
+      })
+      .on('postgres_changes', { event: 'UPDATE', schema: 'public', table: 'pins' }, (payload) => {
+        handlersRef.current.onPinUpdated?.(payload.new as Tables<'pins'>);
+      })
+      .on('postgres_changes', { event: 'DELETE', schema: 'public', table: 'pins' }, (payload) => {
+        const pinId = (payload.old as Partial<Tables<'pins'>>).id;
+        if (pinId) handlersRef.current.onPinDeleted?.(pinId);
+      })
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [enabled]);
+};
@@ -0,0 +1,146 @@
+import { useEffect, useState } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from '@/hooks/use-toast';
+import type { Pin } from '@/types/pin';
+
+interface PinActionOptions {
+  liked?: boolean;
+  saved?: boolean;
+  onLike?: (pinId: string, liked: boolean) => void;
+  onSave?: (pinId: string, saved: boolean) => void;
+  onDelete?: (pinId: string) => void;
+}
+
+// Like/save/delete/download behaviour shared by the grid tile and the pin page
+export const usePinActions = (
+  pin: Pin,
+  { liked = false, saved = false, onLike, onSave, onDelete }: PinActionOptions = {}
+) => {
+  const { user } = useAuth();
+  const [isLiked, setIsLiked] = useState(liked);
+  const [isSaved, setIsSaved] = useState(saved);
+  const [likeCount, setLikeCount] = useState(pin.like_count ?? 0);
+  const [saveDialogOpen, setSaveDialogOpen] = useState(false);
+
+  const isOwner = user?.id === pin.user_id;
+
+  useEffect(() => {
+    setIsLiked(liked);
+  }, [liked]);
+
+  useEffect(() => {
+    setIsSaved(saved);
+  }, [saved]);
+
+  useEffect(() => {
+    setLikeCount(pin.like_count ?? 0);
+  }, [pin.like_count]);
+
+  const handleLike = async () => {
+    if (!user) return;
+
+    try {
+      if (isLiked) {
+        const { error } = await supabase
+          .from('likes')
+          .delete()
+          .eq('user_id', user.id)
+          .eq('pin_id', pin.id);
+        if (error) throw error;
+      } else {
+        const { error } = await supabase
+          .from('likes')
+          .insert({ user_id: user.id, pin_id: pin.id });
+        if (error) throw error;
+      }
+
+      setIsLiked(!isLiked);
+      setLikeCount(prev => Math.max(0, prev + (isLiked ? -1 : 1)));
+      onLike?.(pin.id, !isLiked);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to update like status",
+        variant: "destructive"
+      });
+    }
+  };
+
+  // Saving goes through the board picker, which reports back whether the
+  // pin is still in any of the user's boards
+  const handleSave = () => {
+    if (!user) return;
+    setSaveDialogOpen(true);
+  };
+
+  const handleSavedChange = (saved: boolean) => {
+    setIsSaved(saved);
+    onSave?.(pin.id, saved);
+  };
+
+  const handleDelete = async () => {
+    if (!isOwner) return;
+
+    try {
+      const { error } = await supabase
+        .from('pins')
+        .delete()
+        .eq('id', pin.id);
+      if (error) throw error;
+
+      onDelete?.(pin.id);
+      toast({
+        title: "Pin deleted",
+        description: "Your pin has been deleted successfully"
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to delete pin",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const handleDownload = () => {
+    const link = document.createElement('a');
+    link.href = pin.image_url;
+    link.download = `${pin.title || 'pin'}.jpg`;
+    link.target = '_blank';
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+  };
+
+  const handleCopyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(`${window.location.origin}/pin/${pin.id}`);
+      toast({
+        title: "Link copied",
+        description: "Share it with anyone on PinIt"
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to copy link",
+        variant: "destructive"
+      });
+    }
+  };
+
+  return {
+    isOwner,
+    isLiked,
+    isSaved,
+    likeCount,
+    saveDialogOpen,
+    setSaveDialogOpen,
+    handleLike,
+    handleSave,
+    handleSavedChange,
+    handleDelete,
+    handleDownload,
+    handleCopyLink,
+  };
+};
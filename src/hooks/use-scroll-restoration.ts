@@ -0,0 +1,75 @@
+import { useEffect, useRef } from 'react';
+import { useLocation, useNavigationType } from 'react-router-dom';
+
+interface ScrollRestorationOptions {
+  // Changes whenever the content grows, e.g. the grid's height
+  contentHeight: number;
+  hasMore: boolean;
+  loadingMore: boolean;
+  onLoadMore?: () => void;
+  // Off for lists that share a page with others, so only the page restores
+  enabled?: boolean;
+}
+
+const SAVE_DELAY = 100;
+
+const storageKey = (locationKey: string) => `scroll:${locationKey}`;
+
+// Remembers the window scroll position of the current history entry and puts
+// it back when the user returns with back/forward. Lists load page by page,
+// so restoring keeps asking for more pages until the position is reachable.
+export const useScrollRestoration = ({
+  contentHeight,
+  hasMore,
+  loadingMore,
+  onLoadMore,
+  enabled = true
+}: ScrollRestorationOptions) => {
+  const location = useLocation();
+  const navigationType = useNavigationType();
+  const key = storageKey(location.key);
+  const targetRef = useRef<number | null>(null);
+  const readKeyRef = useRef<string | null>(null);
+
+  // Read the saved position once per history entry
+  if (readKeyRef.current !== key) {
+    readKeyRef.current = key;
+    const saved = enabled && navigationType === 'POP' ? Number(sessionStorage.getItem(key)) : 0;
+    targetRef.current = saved > 0 ? saved : null;
+  }
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    let timeout: ReturnType<typeof setTimeout>;
+
+    const save = () => {
+      clearTimeout(timeout);
+      timeout = setTimeout(() => {
+        // Scrolling caused by a pending restore is not the user's position
+        if (targetRef.current === null) {
+          sessionStorage.setItem(key, String(Math.round(window.scrollY)));
+        }
+      }, SAVE_DELAY);
+    };
+
+    window.addEventListener('scroll', save, { passive: true });
+    return () => {
+      clearTimeout(timeout);
+      window.removeEventListener('scroll', save);
+    };
+  }, [key, enabled]);
+
+  useEffect(() => {
+    const target = targetRef.current;
+    if (target === null) return;
+
+    const maxScroll = document.documentElement.scrollHeight - window.innerHeight;
+    if (maxScroll >= target || !hasMore) {
+      window.scrollTo(0, Math.min(target, maxScroll));
+      targetRef.current = null;
+    } else if (!loadingMore) {
+      onLoadMore?.();
+    }
+  }, [contentHeight, hasMore, loadingMore, onLoadMore]);
+};
@@ -14,6 +14,189 @@ export type Database = {
   }
   public: {
     Tables: {
+      board_members: {
+        Row: {
+          board_id: string
+          created_at: string
+          id: string
+          invited_by: string | null
+          role: Database["public"]["Enums"]["board_role"]
+          user_id: string
+        }
+        Insert: {
+          board_id: string
+          created_at?: string
+          id?: string
+          invited_by?: string | null
+          role?: Database["public"]["Enums"]["board_role"]
+          user_id: string
+        }
+        Update: {
+          board_id?: string
+          created_at?: string
+          id?: string
+          invited_by?: string | null
+          role?: Database["public"]["Enums"]["board_role"]
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "board_members_board_id_fkey"
+            columns: ["board_id"]
+            isOneToOne: false
+            referencedRelation: "boards"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      board_sections: {
+        Row: {
+          board_id: string
+          created_at: string
+          id: string
+          name: string
+          position: number
+          updated_at: string
+        }
+        Insert: {
+          board_id: string
+          created_at?: string
+          id?: string
+          name: string
+          position?: number
+          updated_at?: string
+        }
+        Update: {
+          board_id?: string
+          created_at?: string
+          id?: string
+          name?: string
+          position?: number
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "board_sections_board_id_fkey"
+            columns: ["board_id"]
+            isOneToOne: false
+            referencedRelation: "boards"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      boards: {
+        Row: {
+          cover_pin_id: string | null
+          created_at: string
+          description: string | null
+          id: string
+          name: string
+          slug: string
+          updated_at: string
+          user_id: string
+          visibility: Database["public"]["Enums"]["visibility"]
+        }
+        Insert: {
+          cover_pin_id?: string | null
+          created_at?: string
+          description?: string | null
+          id?: string
+          name: string
+          slug?: string
+          updated_at?: string
+          user_id: string
+          visibility?: Database["public"]["Enums"]["visibility"]
+        }
+        Update: {
+          cover_pin_id?: string | null
+          created_at?: string
+          description?: string | null
+          id?: string
+          name?: string
+          slug?: string
+          updated_at?: string
+          user_id?: string
+          visibility?: Database["public"]["Enums"]["visibility"]
+        }
+        Relationships: [
+          {
+            foreignKeyName: "boards_cover_pin_id_fkey"
+            columns: ["cover_pin_id"]
+            isOneToOne: false
+            referencedRelation: "pins"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      comments: {
+        Row: {
+          body: string
+          created_at: string
+          edited: boolean
+          id: string
+          parent_id: string | null
+          pin_id: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          body: string
+          created_at?: string
+          edited?: boolean
+          id?: string
+          parent_id?: string | null
+          pin_id: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          body?: string
+          created_at?: string
+          edited?: boolean
+          id?: string
+          parent_id?: string | null
+          pin_id?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "comments_parent_id_fkey"
+            columns: ["parent_id"]
+            isOneToOne: false
+            referencedRelation: "comments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "comments_pin_id_fkey"
+            columns: ["pin_id"]
+            isOneToOne: false
+            referencedRelation: "pins"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      follows: {
+        Row: {
+          created_at: string
+          follower_id: string
+          following_id: string
+          id: string
+        }
+        Insert: {
+          created_at?: string
+          follower_id: string
+          following_id: string
+          id?: string
+        }
+        Update: {
+          created_at?: string
+          follower_id?: string
+          following_id?: string
+          id?: string
+        }
+        Relationships: []
+      }
       likes: {
         Row: {
           created_at: string
@@ -43,38 +226,160 @@ export type Database = {
           },
         ]
       }
+      notifications: {
+        Row: {
+          actor_id: string
+          comment_id: string | null
+          created_at: string
+          id: string
+          pin_id: string | null
+          read_at: string | null
+          recipient_id: string
+          type: Database["public"]["Enums"]["notification_type"]
+        }
+        Insert: {
+          actor_id: string
+          comment_id?: string | null
+          created_at?: string
+          id?: string
+          pin_id?: string | null
+          read_at?: string | null
+          recipient_id: string
+          type: Database["public"]["Enums"]["notification_type"]
+        }
+        Update: {
+          actor_id?: string
+          comment_id?: string | null
+          created_at?: string
+          id?: string
+          pin_id?: string | null
+          read_at?: string | null
+          recipient_id?: string
+          type?: Database["public"]["Enums"]["notification_type"]
+        }
+        Relationships: [
+          {
+            foreignKeyName: "notifications_comment_id_fkey"
+            columns: ["comment_id"]
+            isOneToOne: false
+            referencedRelation: "comments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "notifications_pin_id_fkey"
+            columns: ["pin_id"]
+            isOneToOne: false
+            referencedRelation: "pins"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      pin_tags: {
+        Row: {
+          created_at: string
+          pin_id: string
+          tag_id: string
+        }
+        Insert: {
+          created_at?: string
+          pin_id: string
+          tag_id: string
+        }
+        Update: {
+          created_at?: string
+          pin_id?: string
+          tag_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "pin_tags_pin_id_fkey"
+            columns: ["pin_id"]
+            isOneToOne: false
+            referencedRelation: "pins"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "pin_tags_tag_id_fkey"
+            columns: ["tag_id"]
+            isOneToOne: false
+            referencedRelation: "tags"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       pins: {
         Row: {
+          camera_info: Json | null
+          comment_count: number
           created_at: string
           description: string | null
+          dominant_color: string | null
+          height: number | null
           id: string
           image_url: string
+          image_variants: Json | null
+          like_count: number
+          placeholder: string | null
+          save_count: number
+          search_vector: unknown | null
           tags: string[] | null
           title: string
           updated_at: string
           user_id: string
+          visibility: Database["public"]["Enums"]["visibility"]
+          width: number | null
         }
         Insert: {
+          camera_info?: Json | null
+          comment_count?: number
           created_at?: string
           description?: string | null
+          dominant_color?: string | null
+          height?: number | null
           id?: string
           image_url: string
+          image_variants?: Json | null
+          like_count?: number
+          placeholder?: string | null
+          save_count?: number
+          search_vector?: unknown | null
           tags?: string[] | null
           title: string
           updated_at?: string
           user_id: string
+          visibility?: Database["public"]["Enums"]["visibility"]
+          width?: number | null
         }
         Update: {
+          camera_info?: Json | null
+          comment_count?: number
           created_at?: string
           description?: string | null
+          dominant_color?: string | null
+          height?: number | null
           id?: string
           image_url?: string
+          image_variants?: Json | null
+          like_count?: number
+          placeholder?: string | null
+          save_count?: number
+          search_vector?: unknown | null
           tags?: string[] | null
           title?: string
           updated_at?: string
           user_id?: string
+          visibility?: Database["public"]["Enums"]["visibility"]
+          width?: number | null
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "pins_user_id_profiles_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+        ]
       }
       profiles: {
         Row: {
@@ -111,24 +416,37 @@ export type Database = {
       }
       saves: {
         Row: {
+          board_id: string
           created_at: string
           id: string
           pin_id: string
+          section_id: string | null
           user_id: string
         }
         Insert: {
+          board_id: string
           created_at?: string
           id?: string
           pin_id: string
+          section_id?: string | null
           user_id: string
         }
         Update: {
+          board_id?: string
           created_at?: string
           id?: string
           pin_id?: string
+          section_id?: string | null
           user_id?: string
         }
         Relationships: [
+          {
+            foreignKeyName: "saves_board_id_fkey"
+            columns: ["board_id"]
+            isOneToOne: false
+            referencedRelation: "boards"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "saves_pin_id_fkey"
             columns: ["pin_id"]
@@ -136,17 +454,334 @@ export type Database = {
             referencedRelation: "pins"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "saves_section_id_fkey"
+            columns: ["section_id", "board_id"]
+            isOneToOne: false
+            referencedRelation: "board_sections"
+            referencedColumns: ["id", "board_id"]
+          },
+        ]
+      }
+      search_history: {
+        Row: {
+          id: string
+          query: string
+          searched_at: string
+          user_id: string
+        }
+        Insert: {
+          id?: string
+          query: string
+          searched_at?: string
+          user_id: string
+        }
+        Update: {
+          id?: string
+          query?: string
+          searched_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      tag_follows: {
+        Row: {
+          created_at: string
+          id: string
+          tag_id: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          tag_id: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          tag_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "tag_follows_tag_id_fkey"
+            columns: ["tag_id"]
+            isOneToOne: false
+            referencedRelation: "tags"
+            referencedColumns: ["id"]
+          },
         ]
       }
+      tags: {
+        Row: {
+          created_at: string
+          id: string
+          name: string
+          slug: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          name: string
+          slug: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          name?: string
+          slug?: string
+        }
+        Relationships: []
+      }
     }
     Views: {
-      [_ in never]: never
+      active_creators: {
+        Row: {
+          avatar_url: string | null
+          display_name: string | null
+          first_pinned_at: string | null
+          last_pinned_at: string | null
+          recent_pin_count: number | null
+          user_id: string | null
+          username: string | null
+        }
+        Relationships: []
+      }
+      feed_pins: {
+        Row: {
+          author_avatar_url: string | null
+          author_display_name: string | null
+          author_username: string | null
+          camera_info: Json | null
+          comment_count: number | null
+          created_at: string | null
+          description: string | null
+          dominant_color: string | null
+          height: number | null
+          id: string | null
+          image_url: string | null
+          image_variants: Json | null
+          like_count: number | null
+          placeholder: string | null
+          save_count: number | null
+          tags: string[] | null
+          title: string | null
+          updated_at: string | null
+          user_id: string | null
+          viewer_liked: boolean | null
+          viewer_saved: boolean | null
+          visibility: Database["public"]["Enums"]["visibility"] | null
+          width: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "pins_user_id_profiles_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+        ]
+      }
+      trending_pins: {
+        Row: {
+          pin_id: string | null
+          score: number | null
+        }
+        Relationships: []
+      }
+      trending_tags: {
+        Row: {
+          activity_count: number | null
+          name: string | null
+          pin_count: number | null
+          slug: string | null
+          tag_id: string | null
+          time_window: string | null
+        }
+        Relationships: []
+      }
     }
     Functions: {
-      [_ in never]: never
+      board_pins: {
+        Args: { target_board_id: string }
+        Returns: {
+          author_avatar_url: string | null
+          author_display_name: string | null
+          author_username: string | null
+          camera_info: Json | null
+          comment_count: number | null
+          created_at: string | null
+          description: string | null
+          dominant_color: string | null
+          height: number | null
+          id: string | null
+          image_url: string | null
+          image_variants: Json | null
+          like_count: number | null
+          placeholder: string | null
+          save_count: number | null
+          tags: string[] | null
+          title: string | null
+          updated_at: string | null
+          user_id: string | null
+          viewer_liked: boolean | null
+          viewer_saved: boolean | null
+          visibility: Database["public"]["Enums"]["visibility"] | null
+          width: number | null
+        }[]
+      }
+      board_role_for: {
+        Args: { target_board_id: string; target_user_id?: string }
+        Returns: Database["public"]["Enums"]["board_role"]
+      }
+      can_edit_board: {
+        Args: { target_board_id: string }
+        Returns: boolean
+      }
+      can_view_board: {
+        Args: { target_board_id: string }
+        Returns: boolean
+      }
+      explore_pins: {
+        Args: { page_offset?: number; page_size?: number }
+        Returns: {
+          author_avatar_url: string | null
+          author_display_name: string | null
+          author_username: string | null
+          camera_info: Json | null
+          comment_count: number | null
+          created_at: string | null
+          description: string | null
+          dominant_color: string | null
+          height: number | null
+          id: string | null
+          image_url: string | null
+          image_variants: Json | null
+          like_count: number | null
+          placeholder: string | null
+          save_count: number | null
+          tags: string[] | null
+          title: string | null
+          updated_at: string | null
+          user_id: string | null
+          viewer_liked: boolean | null
+          viewer_saved: boolean | null
+          visibility: Database["public"]["Enums"]["visibility"] | null
+          width: number | null
+        }[]
+      }
+      is_pin_collaborator: {
+        Args: { target_pin_id: string }
+        Returns: boolean
+      }
+      normalize_tag: {
+        Args: { value: string }
+        Returns: string
+      }
+      notify: {
+        Args: {
+          actor: string
+          kind: Database["public"]["Enums"]["notification_type"]
+          recipient: string
+          target_comment_id?: string
+          target_pin_id?: string
+        }
+        Returns: undefined
+      }
+      pin_search_vector: {
+        Args: { description: string; tags: string[]; title: string }
+        Returns: unknown
+      }
+      popular_tags: {
+        Args: { max_results?: number }
+        Returns: {
+          name: string
+          pin_count: number
+          slug: string
+          tag_id: string
+        }[]
+      }
+      recount_pin_counters: {
+        Args: { target_pin_id?: string }
+        Returns: number
+      }
+      refresh_explore: {
+        Args: Record<PropertyKey, never>
+        Returns: undefined
+      }
+      reorder_board_sections: {
+        Args: { section_ids: string[]; target_board_id: string }
+        Returns: undefined
+      }
+      search_pins: {
+        Args: {
+          created_after?: string
+          created_before?: string
+          has_description?: boolean
+          has_tags?: boolean
+          page_offset?: number
+          page_size?: number
+          query?: string
+          tag_filter?: string[]
+          user_filter?: string[]
+        }
+        Returns: {
+          author_avatar_url: string | null
+          author_display_name: string | null
+          author_username: string | null
+          camera_info: Json | null
+          comment_count: number | null
+          created_at: string | null
+          description: string | null
+          dominant_color: string | null
+          height: number | null
+          id: string | null
+          image_url: string | null
+          image_variants: Json | null
+          like_count: number | null
+          placeholder: string | null
+          save_count: number | null
+          tags: string[] | null
+          title: string | null
+          updated_at: string | null
+          user_id: string | null
+          viewer_liked: boolean | null
+          viewer_saved: boolean | null
+          visibility: Database["public"]["Enums"]["visibility"] | null
+          width: number | null
+        }[]
+      }
+      slugify: {
+        Args: { value: string }
+        Returns: string
+      }
+      suggest_tags: {
+        Args: { max_results?: number; prefix: string }
+        Returns: {
+          pin_count: number
+          tag: string
+        }[]
+      }
+      suggest_users: {
+        Args: { max_results?: number; prefix: string }
+        Returns: {
+          avatar_url: string | null
+          bio: string | null
+          created_at: string
+          display_name: string | null
+          id: string
+          updated_at: string
+          user_id: string
+          username: string
+        }[]
+      }
     }
     Enums: {
-      [_ in never]: never
+      board_role: "owner" | "editor" | "viewer"
+      notification_type: "like" | "save" | "comment" | "reply" | "follow"
+      visibility: "public" | "secret"
     }
     CompositeTypes: {
       [_ in never]: never
@@ -273,6 +908,10 @@ export type CompositeTypes<
 
 export const Constants = {
   public: {
-    Enums: {},
+    Enums: {
+      board_role: ["owner", "editor", "viewer"],
+      notification_type: ["like", "save", "comment", "reply", "follow"],
+      visibility: ["public", "secret"],
+    },
   },
 } as const
@@ -0,0 +1,12 @@
+import type { Location } from 'react-router-dom';
+
+export interface AuthRedirectState {
+  // The protected page that sent the visitor to /auth, e.g. a shared pin link
+  from?: Location;
+}
+
+// Where to go once signed in: back to the page that required it, or home
+export const returnPath = (state: unknown) => {
+  const from = (state as AuthRedirectState | null)?.from;
+  return from ? `${from.pathname}${from.search}${from.hash}` : '/';
+};
@@ -0,0 +1,106 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Database, Tables } from '@/integrations/supabase/types';
+import { resolveImageUrls } from '@/lib/pins';
+import type { Pin, PinAuthor } from '@/types/pin';
+
+export type Board = Tables<'boards'>;
+
+export type BoardSection = Tables<'board_sections'>;
+
+export type BoardRole = Database['public']['Enums']['board_role'];
+
+export interface BoardSummary extends Board {
+  pin_count: number;
+  cover_url?: string;
+}
+
+export interface BoardMember {
+  user_id: string;
+  role: BoardRole;
+  profile?: PinAuthor;
+}
+
+export const boardPath = (username: string, slug: string) => `/u/${username}/${slug}`;
+
+export const canEditBoard = (role?: BoardRole | null) => role === 'owner' || role === 'editor';
+
+const BOARD_SUMMARY_COLUMNS = '*, saves(count), cover:pins!boards_cover_pin_id_fkey(image_url, visibility)';
+
+type BoardSummaryRow = Board & {
+  saves: { count: number }[];
+  cover: Pick<Pin, 'image_url' | 'visibility'> | null;
+};
+
+const toSummaries = async (rows: BoardSummaryRow[]): Promise<BoardSummary[]> => {
+  const covers = await resolveImageUrls(rows.map(row => row.cover ?? { image_url: '' }));
+
+  return rows.map(({ saves, cover, ...board }, index) => ({
+    ...board,
+    pin_count: saves[0]?.count ?? 0,
+    cover_url: cover ? covers[index].image_url : undefined
+  }));
+};
+
+// Boards owned by a user, with pin counts and cover images
+export const fetchBoardSummaries = async (userId: string): Promise<BoardSummary[]> => {
+  const { data, error } = await supabase
+    .from('boards')
+    .select(BOARD_SUMMARY_COLUMNS)
+    .eq('user_id', userId)
+    .order('updated_at', { ascending: false });
+
+  if (error) throw error;
+  return toSummaries(data || []);
+};
+
+// Boards a user can save pins into, their own and ones they edit
+export const fetchEditableBoardSummaries = async (userId: string): Promise<BoardSummary[]> => {
+  const { data: memberships, error: membershipsError } = await supabase
+    .from('board_members')
+    .select('board_id')
+    .eq('user_id', userId)
+    .in('role', ['owner', 'editor']);
+
+  if (membershipsError) throw membershipsError;
+
+  const boardIds = (memberships || []).map(membership => membership.board_id);
+  if (boardIds.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from('boards')
+    .select(BOARD_SUMMARY_COLUMNS)
+    .in('id', boardIds)
+    .order('updated_at', { ascending: false });
+
+  if (error) throw error;
+  return toSummaries(data || []);
+};
+
+// Owner first, then collaborators in the order they joined
+export const fetchBoardMembers = async (boardId: string): Promise<BoardMember[]> => {
+  const { data: members, error } = await supabase
+    .from('board_members')
+    .select('user_id, role')
+    .eq('board_id', boardId)
+    .order('created_at');
+
+  if (error) throw error;
+
+  const userIds = (members || []).map(member => member.user_id);
+  if (userIds.length === 0) return [];
+
+  const { data: profiles, error: profilesError } = await supabase
+    .from('profiles')
+    .select('user_id, username, display_name, avatar_url')
+    .in('user_id', userIds);
+
+  if (profilesError) throw profilesError;
+
+  const byUser = new Map<string, PinAuthor>(
+    (profiles || []).map(({ user_id, ...profile }) => [user_id, profile])
+  );
+
+  return (members || [])
+    .map(member => ({ ...member, profile: byUser.get(member.user_id) }))
+    .sort((a, b) => Number(b.role === 'owner') - Number(a.role === 'owner'));
+};
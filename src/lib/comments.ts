@@ -0,0 +1,59 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import type { PinAuthor } from '@/types/pin';
+
+export const COMMENT_MAX_LENGTH = 1000;
+
+export interface PinComment extends Tables<'comments'> {
+  profile?: PinAuthor;
+}
+
+export interface CommentThread {
+  comment: PinComment;
+  replies: PinComment[];
+}
+
+// Oldest first, with their authors
+export const fetchComments = async (pinId: string): Promise<PinComment[]> => {
+  const { data: comments, error } = await supabase
+    .from('comments')
+    .select('*')
+    .eq('pin_id', pinId)
+    .order('created_at');
+
+  if (error) throw error;
+
+  const userIds = [...new Set((comments || []).map(comment => comment.user_id))];
+  if (userIds.length === 0) return [];
+
+  const { data: profiles, error: profilesError } = await supabase
+    .from('profiles')
+    .select('user_id, username, display_name, avatar_url')
+    .in('user_id', userIds);
+
+  if (profilesError) throw profilesError;
+
+  const byUser = new Map<string, PinAuthor>(
+    (profiles || []).map(({ user_id, ...profile }) => [user_id, profile])
+  );
+
+  return (comments || []).map(comment => ({ ...comment, profile: byUser.get(comment.user_id) }));
+};
+
+// Groups a flat, oldest-first list into top-level comments and their replies
+export const toThreads = (comments: PinComment[]): CommentThread[] => {
+  const threads = new Map<string, CommentThread>();
+
+  for (const comment of comments) {
+    if (!comment.parent_id) {
+      threads.set(comment.id, { comment, replies: [] });
+    }
+  }
+  for (const comment of comments) {
+    if (comment.parent_id) {
+      threads.get(comment.parent_id)?.replies.push(comment);
+    }
+  }
+
+  return [...threads.values()];
+};
@@ -0,0 +1,158 @@
+// Camera details an uploader may choose to keep on a pin. Nothing that
+// identifies a place, a person or a particular device (GPS, owner name,
+// serial numbers) is read.
+export interface CameraInfo {
+  make?: string;
+  model?: string;
+  lens?: string;
+  // Millimetres
+  focalLength?: number;
+  fNumber?: number;
+  // Seconds
+  exposureTime?: number;
+  iso?: number;
+}
+
+// EXIF sits in an APP1 segment near the start of a JPEG
+const EXIF_SCAN_BYTES = 128 * 1024;
+const MAX_TEXT_LENGTH = 64;
+
+const TAG_MAKE = 0x010f;
+const TAG_MODEL = 0x0110;
+const TAG_EXIF_IFD = 0x8769;
+const TAG_EXPOSURE_TIME = 0x829a;
+const TAG_F_NUMBER = 0x829d;
+const TAG_ISO = 0x8827;
+const TAG_FOCAL_LENGTH = 0x920a;
+const TAG_LENS_MODEL = 0xa434;
+
+const ASCII = 2;
+const SHORT = 3;
+const LONG = 4;
+const RATIONAL = 5;
+
+const TYPE_SIZES: Record<number, number> = { [ASCII]: 1, [SHORT]: 2, [LONG]: 4, [RATIONAL]: 8 };
+
+type IfdEntries = Map<number, string | number>;
+
+const readValue = (view: DataView, tiff: number, entry: number, little: boolean) => {
+  const type = view.getUint16(entry + 2, little);
+  const count = view.getUint32(entry + 4, little);
+  const size = (TYPE_SIZES[type] ?? 0) * count;
+  if (size === 0) return undefined;
+
+  // Values of up to four bytes are stored in the entry itself
+  const at = size <= 4 ? entry + 8 : tiff + view.getUint32(entry + 8, little);
+  if (at + size > view.byteLength) return undefined;
+
+  switch (type) {
+    case ASCII: {
+      const bytes = new Uint8Array(view.buffer, view.byteOffset + at, count);
+      const end = bytes.indexOf(0);
+      return new TextDecoder().decode(end === -1 ? bytes : bytes.subarray(0, end)).trim().slice(0, MAX_TEXT_LENGTH);
+    }
+    case SHORT:
+      return view.getUint16(at, little);
+    case LONG:
+      return view.getUint32(at, little);
+    case RATIONAL: {
+      const denominator = view.getUint32(at + 4, little);
+      return denominator ? view.getUint32(at, little) / denominator : undefined;
+    }
+  }
+};
+
+const readIfd = (view: DataView, tiff: number, offset: number, little: boolean): IfdEntries => {
+  const entries: IfdEntries = new Map();
+  const start = tiff + offset;
+  if (start + 2 > view.byteLength) return entries;
+
+  const count = view.getUint16(start, little);
+  for (let i = 0; i < count; i++) {
+    const entry = start + 2 + i * 12;
+    if (entry + 12 > view.byteLength) break;
+
+    const value = readValue(view, tiff, entry, little);
+    if (value !== undefined && value !== '') entries.set(view.getUint16(entry, little), value);
+  }
+  return entries;
+};
+
+const readTiff = (view: DataView, tiff: number): CameraInfo | null => {
+  const order = view.getUint16(tiff);
+  if (order !== 0x4949 && order !== 0x4d4d) return null;
+  const little = order === 0x4949;
+
+  const ifd0 = readIfd(view, tiff, view.getUint32(tiff + 4, little), little);
+  const exifOffset = ifd0.get(TAG_EXIF_IFD);
+  const exif = typeof exifOffset === 'number' ? readIfd(view, tiff, exifOffset, little) : new Map();
+
+  const text = (entries: IfdEntries, tag: number) => {
+    const value = entries.get(tag);
+    return typeof value === 'string' ? value : undefined;
+  };
+  const number = (entries: IfdEntries, tag: number) => {
+    const value = entries.get(tag);
+    return typeof value === 'number' && value > 0 ? value : undefined;
+  };
+
+  const info: CameraInfo = {
+    make: text(ifd0, TAG_MAKE),
+    model: text(ifd0, TAG_MODEL),
+    lens: text(exif, TAG_LENS_MODEL),
+    focalLength: number(exif, TAG_FOCAL_LENGTH),
+    fNumber: number(exif, TAG_F_NUMBER),
+    exposureTime: number(exif, TAG_EXPOSURE_TIME),
+    iso: number(exif, TAG_ISO)
+  };
+
+  const present = Object.entries(info).filter(([, value]) => value !== undefined);
+  return present.length > 0 ? Object.fromEntries(present) : null;
+};
+
+// Camera details from a JPEG's EXIF block; null for other formats, files
+// without EXIF or anything that does not parse
+export const readCameraInfo = async (file: Blob): Promise<CameraInfo | null> => {
+  try {
+    const view = new DataView(await file.slice(0, EXIF_SCAN_BYTES).arrayBuffer());
+    if (view.byteLength < 4 || view.getUint16(0) !== 0xffd8) return null;
+
+    let offset = 2;
+    while (offset + 10 <= view.byteLength) {
+      const marker = view.getUint16(offset);
+      // Image data starts at SOS; metadata only comes before it
+      if ((marker & 0xff00) !== 0xff00 || marker === 0xffda) return null;
+
+      // "Exif\0\0" then the TIFF structure
+      if (marker === 0xffe1 && view.getUint32(offset + 4) === 0x45786966) {
+        return readTiff(view, offset + 10);
+      }
+      offset += 2 + view.getUint16(offset + 2);
+    }
+    return null;
+  } catch (error) {
+    console.error('Error reading camera info:', error);
+    return null;
+  }
+};
+
+const formatExposure = (seconds: number) => (
+  seconds >= 1 ? `${Number(seconds.toFixed(1))}s` : `1/${Math.round(1 / seconds)}s`
+);
+
+// One line summary, e.g. "Canon EOS R6 · RF50mm F1.8 STM · 50mm · ƒ/1.8 · 1/200s · ISO 400"
+export const formatCameraInfo = (info: CameraInfo) => {
+  // Models usually repeat the make ("Canon EOS R6"), but not always ("iPhone 15")
+  const camera = info.make && info.model && !info.model.toLowerCase().startsWith(info.make.toLowerCase())
+    ? `${info.make} ${info.model}`
+    : info.model ?? info.make;
+
+  return [
+    camera,
+    info.lens,
+    info.focalLength && `${Math.round(info.focalLength)}mm`,
+    info.fNumber && `ƒ/${Number(info.fNumber.toFixed(1))}`,
+    info.exposureTime && formatExposure(info.exposureTime),
+    info.iso && `ISO ${info.iso}`
+  ].filter(Boolean).join(' · ');
+};
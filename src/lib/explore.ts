@@ -0,0 +1,66 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import { fromFeedRows, viewerInteractions } from '@/lib/pins';
+import type { Pin } from '@/types/pin';
+
+// Explore reads precomputed views that are refreshed every 15 minutes
+
+export const EXPLORE_PAGE_SIZE = 30;
+export const TRENDING_TAG_LIMIT = 20;
+export const ACTIVE_CREATOR_LIMIT = 12;
+
+export type TrendingWindow = '24h' | '7d';
+export type TrendingTag = Tables<'trending_tags'>;
+export type ActiveCreator = Tables<'active_creators'>;
+
+export interface ExplorePage {
+  pins: Pin[];
+  hasMore: boolean;
+  liked: Set<string>;
+  saved: Set<string>;
+}
+
+// Scores change between refreshes, so pages are addressed by offset
+export const fetchTrendingPins = async (offset = 0): Promise<ExplorePage> => {
+  // One extra row tells us whether another page exists
+  const { data, error } = await supabase.rpc('explore_pins', {
+    page_size: EXPLORE_PAGE_SIZE + 1,
+    page_offset: offset
+  });
+
+  if (error) throw error;
+
+  const rows = data || [];
+  const page = rows.slice(0, EXPLORE_PAGE_SIZE);
+
+  return {
+    pins: await fromFeedRows(page),
+    hasMore: rows.length > EXPLORE_PAGE_SIZE,
+    ...viewerInteractions(page)
+  };
+};
+
+export const fetchTrendingTags = async (window: TrendingWindow): Promise<TrendingTag[]> => {
+  const { data, error } = await supabase
+    .from('trending_tags')
+    .select('*')
+    .eq('time_window', window)
+    .order('activity_count', { ascending: false })
+    .order('slug')
+    .limit(TRENDING_TAG_LIMIT);
+
+  if (error) throw error;
+  return data || [];
+};
+
+// Creators active this week, newest to pinning first
+export const fetchActiveCreators = async (): Promise<ActiveCreator[]> => {
+  const { data, error } = await supabase
+    .from('active_creators')
+    .select('*')
+    .order('first_pinned_at', { ascending: false })
+    .limit(ACTIVE_CREATOR_LIMIT);
+
+  if (error) throw error;
+  return data || [];
+};
@@ -0,0 +1,87 @@
+import { supabase } from '@/integrations/supabase/client';
+import { fromFeedRows, viewerInteractions } from '@/lib/pins';
+import type { Pin } from '@/types/pin';
+
+export const FEED_PAGE_SIZE = 50;
+
+// Position after the last pin of a page, newest first
+export interface FeedCursor {
+  created_at: string;
+  id: string;
+}
+
+export interface FeedPage {
+  pins: Pin[];
+  nextCursor: FeedCursor | null;
+  // Pins on this page the viewer has liked and saved
+  liked: Set<string>;
+  saved: Set<string>;
+}
+
+interface FeedPageOptions {
+  cursor?: FeedCursor | null;
+  // Restricts the feed to these authors, e.g. the people a user follows
+  authorIds?: string[];
+  // Restricts the feed to pins carrying this tag slug
+  tag?: string;
+  // Blends pins from these authors with pins carrying any of these tag slugs
+  interests?: FeedInterests;
+}
+
+export interface FeedInterests {
+  authorIds: string[];
+  tags: string[];
+}
+
+const emptyPage = (): FeedPage => ({ pins: [], nextCursor: null, liked: new Set(), saved: new Set() });
+
+// One page of the feed, keyset-paginated on (created_at, id) so pages stay
+// stable while new pins are being added at the top
+export const fetchFeedPage = async ({ cursor, authorIds, tag, interests }: FeedPageOptions = {}): Promise<FeedPage> => {
+  if (authorIds && authorIds.length === 0) return emptyPage();
+  if (interests && interests.authorIds.length === 0 && interests.tags.length === 0) return emptyPage();
+
+  let query = supabase
+    .from('feed_pins')
+    .select('*');
+
+  if (authorIds) {
+    query = query.in('user_id', authorIds);
+  }
+
+  if (tag) {
+    query = query.contains('tags', [tag]);
+  }
+
+  if (interests) {
+    const filters = [
+      ...(interests.authorIds.length > 0 ? [`user_id.in.(${interests.authorIds.join(',')})`] : []),
+      ...(interests.tags.length > 0 ? [`tags.ov.{${interests.tags.join(',')}}`] : [])
+    ];
+    query = query.or(filters.join(','));
+  }
+
+  if (cursor) {
+    query = query.or(
+      `created_at.lt."${cursor.created_at}",and(created_at.eq."${cursor.created_at}",id.lt.${cursor.id})`
+    );
+  }
+
+  // One extra row tells us whether another page exists
+  const { data, error } = await query
+    .order('created_at', { ascending: false })
+    .order('id', { ascending: false })
+    .limit(FEED_PAGE_SIZE + 1);
+
+  if (error) throw error;
+
+  const rows = data || [];
+  const page = rows.slice(0, FEED_PAGE_SIZE);
+  const last = page[page.length - 1];
+
+  return {
+    pins: await fromFeedRows(page),
+    nextCursor: rows.length > FEED_PAGE_SIZE && last ? { created_at: last.created_at, id: last.id } : null,
+    ...viewerInteractions(page)
+  };
+};
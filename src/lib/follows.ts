@@ -0,0 +1,41 @@
+import { supabase } from '@/integrations/supabase/client';
+
+export interface FollowCounts {
+  followers: number;
+  following: number;
+}
+
+export const fetchFollowCounts = async (userId: string): Promise<FollowCounts> => {
+  const [followers, following] = await Promise.all([
+    supabase.from('follows').select('id', { count: 'exact', head: true }).eq('following_id', userId),
+    supabase.from('follows').select('id', { count: 'exact', head: true }).eq('follower_id', userId),
+  ]);
+
+  if (followers.error) throw followers.error;
+  if (following.error) throw following.error;
+
+  return { followers: followers.count ?? 0, following: following.count ?? 0 };
+};
+
+// Ids of the users someone follows
+export const fetchFollowingIds = async (userId: string): Promise<string[]> => {
+  const { data, error } = await supabase
+    .from('follows')
+    .select('following_id')
+    .eq('follower_id', userId);
+
+  if (error) throw error;
+  return (data || []).map(follow => follow.following_id);
+};
+
+export const isFollowing = async (followerId: string, followingId: string) => {
+  const { data, error } = await supabase
+    .from('follows')
+    .select('id')
+    .eq('follower_id', followerId)
+    .eq('following_id', followingId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return !!data;
+};
@@ -0,0 +1,120 @@
+import type {
+  ImageProcessorRequest,
+  ImageProcessorResponse,
+  ProcessedRendition
+} from '@/workers/image-processor';
+
+export interface ImageSize {
+  width: number;
+  height: number;
+}
+
+// Decodes an image file the way the browser displays it, EXIF orientation
+// applied
+const loadImage = (file: Blob): Promise<HTMLImageElement> => new Promise((resolve, reject) => {
+  const url = URL.createObjectURL(file);
+  const image = new Image();
+
+  image.onload = () => {
+    URL.revokeObjectURL(url);
+    resolve(image);
+  };
+  image.onerror = () => {
+    URL.revokeObjectURL(url);
+    reject(new Error('Could not read the image'));
+  };
+  image.src = url;
+});
+
+// Widths of the renditions stored next to every upload: grid tiles at 1x and
+// 2x, and the detail view. A full-size rendition is always added.
+export const IMAGE_WIDTHS = [236, 474, 736];
+
+const REENCODE_QUALITY = 0.85;
+
+export interface ImageVariant {
+  width: number;
+  url: string;
+}
+
+export interface ProcessedImage extends ImageSize {
+  // MIME type shared by all renditions
+  type: string;
+  renditions: ProcessedRendition[];
+  placeholder: string | null;
+  dominantColor: string | null;
+}
+
+const EXTENSIONS: Record<string, string> = {
+  'image/avif': 'avif',
+  'image/webp': 'webp',
+  'image/jpeg': 'jpg'
+};
+
+export const imageExtension = (type: string) => EXTENSIONS[type] ?? 'img';
+
+// Decodes the file in a worker and re-encodes it at IMAGE_WIDTHS. Rejects
+// where workers cannot decode or encode images (no OffscreenCanvas).
+export const processImage = (file: Blob): Promise<ProcessedImage> => new Promise((resolve, reject) => {
+  if (typeof Worker === 'undefined' || typeof OffscreenCanvas === 'undefined') {
+    reject(new Error('Image processing is not supported in this browser'));
+    return;
+  }
+
+  const worker = new Worker(new URL('../workers/image-processor.ts', import.meta.url), { type: 'module' });
+
+  worker.onmessage = (event: MessageEvent<ImageProcessorResponse>) => {
+    worker.terminate();
+    const response = event.data;
+    if ('error' in response) {
+      reject(new Error(response.error));
+    } else {
+      resolve(response);
+    }
+  };
+  worker.onerror = () => {
+    worker.terminate();
+    reject(new Error('Could not process the image'));
+  };
+
+  const request: ImageProcessorRequest = { file, widths: IMAGE_WIDTHS };
+  worker.postMessage(request);
+});
+
+// Fallback for browsers that cannot process images in a worker: a single
+// full-size JPEG drawn on the main thread. Like the worker's renditions it
+// carries none of the original file's metadata.
+export const reencodeImage = async (file: Blob): Promise<ProcessedImage> => {
+  const image = await loadImage(file);
+  const { naturalWidth: width, naturalHeight: height } = image;
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  canvas.getContext('2d').drawImage(image, 0, 0);
+
+  const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/jpeg', REENCODE_QUALITY));
+  if (!blob) throw new Error('Could not process the image');
+
+  return {
+    width,
+    height,
+    type: blob.type,
+    renditions: [{ width, height, blob }],
+    placeholder: null,
+    dominantColor: null
+  };
+};
+
+// Renditions for an upload, from the worker where it can run and the main
+// thread otherwise. Either way the result is re-encoded, so the original
+// file's EXIF (location, device details) is left behind.
+export const prepareUpload = (file: Blob): Promise<ProcessedImage> => processImage(file).catch((error) => {
+  console.error('Error processing image:', error);
+  return reencodeImage(file);
+});
+
+// srcset for a pin's renditions; empty for pins uploaded before they existed
+export const imageSrcSet = (variants?: ImageVariant[] | null) => (
+  variants?.length ? variants.map(variant => `${variant.url} ${variant.width}w`).join(', ') : undefined
+);
@@ -0,0 +1,61 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Tag } from '@/lib/tags';
+
+export const POPULAR_TAG_LIMIT = 30;
+
+export interface PopularTag {
+  tag_id: string;
+  slug: string;
+  name: string;
+  pin_count: number;
+}
+
+export const fetchPopularTags = async (): Promise<PopularTag[]> => {
+  const { data, error } = await supabase.rpc('popular_tags', { max_results: POPULAR_TAG_LIMIT });
+
+  if (error) throw error;
+  return data || [];
+};
+
+// Tags a user follows, most recently followed first
+export const fetchFollowedTags = async (userId: string): Promise<Tag[]> => {
+  const { data, error } = await supabase
+    .from('tag_follows')
+    .select('tag:tags(*)')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+  return (data || []).map(follow => follow.tag).filter(Boolean);
+};
+
+export const isFollowingTag = async (userId: string, tagId: string) => {
+  const { data, error } = await supabase
+    .from('tag_follows')
+    .select('id')
+    .eq('user_id', userId)
+    .eq('tag_id', tagId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return !!data;
+};
+
+export const followTag = async (userId: string, tagId: string) => {
+  const { error } = await supabase
+    .from('tag_follows')
+    .insert({ user_id: userId, tag_id: tagId });
+
+  // Already following
+  if (error && error.code !== '23505') throw error;
+};
+
+export const unfollowTag = async (userId: string, tagId: string) => {
+  const { error } = await supabase
+    .from('tag_follows')
+    .delete()
+    .eq('user_id', userId)
+    .eq('tag_id', tagId);
+
+  if (error) throw error;
+};
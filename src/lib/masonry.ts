@@ -0,0 +1,127 @@
+import type { Pin } from '@/types/pin';
+
+// Column placement measures heights in column widths, so it does not depend
+// on the pixel size of the grid; pixel positions are worked out separately
+
+// Height over width for pins without a recorded size
+export const DEFAULT_ASPECT_RATIO = 1.25;
+
+// Rough height of the text under a card's image
+const CARD_FOOTER_HEIGHT = 0.45;
+
+// The same in pixels, for cards that have not been measured yet: padding,
+// title and author row, plus the optional description and tag rows
+const CARD_FOOTER_PX = 88;
+const CARD_DESCRIPTION_PX = 36;
+const CARD_TAGS_PX = 36;
+
+export interface MasonryLayout {
+  columns: number;
+  // Column index of every pin in the layout
+  placements: Map<string, number>;
+  heights: number[];
+}
+
+export const pinAspectRatio = (pin: Pick<Pin, 'width' | 'height'>) => (
+  pin.width && pin.height ? pin.height / pin.width : DEFAULT_ASPECT_RATIO
+);
+
+const estimatedHeight = (pin: Pin) => pinAspectRatio(pin) + CARD_FOOTER_HEIGHT;
+
+export const estimateCardHeight = (pin: Pin, columnWidth: number) => (
+  pinAspectRatio(pin) * columnWidth +
+  CARD_FOOTER_PX +
+  (pin.description ? CARD_DESCRIPTION_PX : 0) +
+  (pin.tags?.length ? CARD_TAGS_PX : 0)
+);
+
+const shortestColumn = (heights: number[]) => heights.indexOf(Math.min(...heights));
+
+// Places each pin into the currently shortest column. Given the previous
+// layout, pins that were already placed keep their column and only pins
+// appended after them are placed, so loading another page never reshuffles
+// what is on screen. Anything else (a new column count, pins inserted
+// above placed ones) lays the grid out from scratch.
+export const layoutMasonry = (pins: Pin[], columns: number, previous?: MasonryLayout | null): MasonryLayout => {
+  const heights = Array.from({ length: columns }, () => 0);
+  const placements = new Map<string, number>();
+
+  let start = 0;
+  if (previous && previous.columns === columns) {
+    while (start < pins.length && previous.placements.has(pins[start].id)) start++;
+    const placedLater = pins.slice(start).some(pin => previous.placements.has(pin.id));
+
+    if (!placedLater) {
+      for (const pin of pins.slice(0, start)) {
+        const column = previous.placements.get(pin.id);
+        placements.set(pin.id, column);
+        heights[column] += estimatedHeight(pin);
+      }
+    } else {
+      start = 0;
+    }
+  }
+
+  for (const pin of pins.slice(start)) {
+    const column = shortestColumn(heights);
+    placements.set(pin.id, column);
+    heights[column] += estimatedHeight(pin);
+  }
+
+  return { columns, placements, heights };
+};
+
+// Pins of each column, in feed order
+export const toColumns = (pins: Pin[], layout: MasonryLayout): Pin[][] => {
+  const columns: Pin[][] = Array.from({ length: layout.columns }, () => []);
+  pins.forEach(pin => columns[layout.placements.get(pin.id) ?? 0].push(pin));
+  return columns;
+};
+
+export interface CardMeasurement {
+  width: number;
+  height: number;
+}
+
+export interface PositionedPin {
+  pin: Pin;
+  left: number;
+  top: number;
+  height: number;
+}
+
+export interface PositionedGrid {
+  items: PositionedPin[];
+  height: number;
+}
+
+// Pixel positions for the columns of a layout. Cards measured at the current
+// column width use their real height, the rest an estimate; measurements
+// taken at another width (before a breakpoint or resize) are ignored.
+export const positionColumns = (
+  columns: Pin[][],
+  columnWidth: number,
+  gap: number,
+  measurements: Map<string, CardMeasurement>
+): PositionedGrid => {
+  const items: PositionedPin[] = [];
+  let height = 0;
+
+  columns.forEach((columnPins, column) => {
+    let top = 0;
+
+    columnPins.forEach(pin => {
+      const measured = measurements.get(pin.id);
+      const cardHeight = measured && Math.abs(measured.width - columnWidth) < 1
+        ? measured.height
+        : estimateCardHeight(pin, columnWidth);
+
+      items.push({ pin, left: column * (columnWidth + gap), top, height: cardHeight });
+      top += cardHeight + gap;
+    });
+
+    height = Math.max(height, top - gap);
+  });
+
+  return { items, height: Math.max(height, 0) };
+};
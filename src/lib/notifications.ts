@@ -0,0 +1,149 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Database, Tables } from '@/integrations/supabase/types';
+import { resolveImageUrls } from '@/lib/pins';
+import type { Pin, PinAuthor } from '@/types/pin';
+
+export type NotificationType = Database['public']['Enums']['notification_type'];
+
+export const NOTIFICATIONS_LIMIT = 50;
+
+type NotificationPin = Pick<Pin, 'id' | 'title' | 'image_url' | 'visibility'>;
+
+export interface AppNotification extends Tables<'notifications'> {
+  actor?: PinAuthor;
+  pin: NotificationPin | null;
+}
+
+// Notifications of one kind about the same pin, newest first
+export interface NotificationGroup {
+  key: string;
+  type: NotificationType;
+  pin: NotificationPin | null;
+  actors: PinAuthor[];
+  ids: string[];
+  unread: boolean;
+  latest: string;
+}
+
+const ACTIONS: Record<NotificationType, string> = {
+  like: 'liked your pin',
+  save: 'saved your pin',
+  comment: 'commented on your pin',
+  reply: 'replied to your comment',
+  follow: 'started following you'
+};
+
+// The most recent notifications for a user, with actors and pins attached
+export const fetchNotifications = async (userId: string): Promise<AppNotification[]> => {
+  const { data, error } = await supabase
+    .from('notifications')
+    .select('*, pin:pins(id, title, image_url, visibility)')
+    .eq('recipient_id', userId)
+    .order('created_at', { ascending: false })
+    .limit(NOTIFICATIONS_LIMIT);
+
+  if (error) throw error;
+
+  const rows = data || [];
+  const actorIds = [...new Set(rows.map(row => row.actor_id))];
+  if (actorIds.length === 0) return [];
+
+  const [{ data: profiles, error: profilesError }, pins] = await Promise.all([
+    supabase
+      .from('profiles')
+      .select('user_id, username, display_name, avatar_url')
+      .in('user_id', actorIds),
+    resolveImageUrls(rows.map(row => row.pin ?? { image_url: '' }))
+  ]);
+
+  if (profilesError) throw profilesError;
+
+  const byUser = new Map<string, PinAuthor>(
+    (profiles || []).map(({ user_id, ...profile }) => [user_id, profile])
+  );
+
+  return rows.map((row, index) => ({
+    ...row,
+    actor: byUser.get(row.actor_id),
+    pin: row.pin ? { ...row.pin, image_url: pins[index].image_url } : null
+  }));
+};
+
+export const fetchUnreadCount = async (userId: string) => {
+  const { count, error } = await supabase
+    .from('notifications')
+    .select('id', { count: 'exact', head: true })
+    .eq('recipient_id', userId)
+    .is('read_at', null);
+
+  if (error) throw error;
+  return count ?? 0;
+};
+
+export const markRead = async (ids: string[]) => {
+  const { error } = await supabase
+    .from('notifications')
+    .update({ read_at: new Date().toISOString() })
+    .in('id', ids)
+    .is('read_at', null);
+
+  if (error) throw error;
+};
+
+export const markAllRead = async (userId: string) => {
+  const { error } = await supabase
+    .from('notifications')
+    .update({ read_at: new Date().toISOString() })
+    .eq('recipient_id', userId)
+    .is('read_at', null);
+
+  if (error) throw error;
+};
+
+// Collapses a newest-first list into one entry per kind and pin. Follows have
+// no pin, so all of them land in a single group.
+export const groupNotifications = (notifications: AppNotification[]): NotificationGroup[] => {
+  const groups = new Map<string, NotificationGroup>();
+
+  for (const notification of notifications) {
+    const key = `${notification.type}:${notification.pin_id ?? ''}`;
+    let group = groups.get(key);
+
+    if (!group) {
+      group = {
+        key,
+        type: notification.type,
+        pin: notification.pin,
+        actors: [],
+        ids: [],
+        unread: false,
+        latest: notification.created_at
+      };
+      groups.set(key, group);
+    }
+
+    group.ids.push(notification.id);
+    group.unread = group.unread || !notification.read_at;
+
+    const actor = notification.actor;
+    if (actor && !group.actors.some(a => a.username === actor.username)) {
+      group.actors.push(actor);
+    }
+  }
+
+  return [...groups.values()];
+};
+
+// "Ana liked your pin", "Ana and Ben liked your pin", "Ana and 4 others liked your pin"
+export const describeGroup = (group: NotificationGroup) => {
+  const names = group.actors.map(actor => actor.display_name || actor.username);
+  const [first = 'Someone', second] = names;
+
+  const who = names.length <= 1
+    ? first
+    : names.length === 2
+      ? `${first} and ${second}`
+      : `${first} and ${names.length - 1} others`;
+
+  return `${who} ${ACTIONS[group.type]}`;
+};
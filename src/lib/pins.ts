@@ -0,0 +1,135 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import type { CameraInfo } from '@/lib/exif';
+import { imageExtension, prepareUpload, type ImageVariant } from '@/lib/images';
+import type { Pin, PinVisibility } from '@/types/pin';
+
+export type FeedRow = Tables<'feed_pins'>;
+
+export const PUBLIC_IMAGES_BUCKET = 'pin-images';
+export const SECRET_IMAGES_BUCKET = 'pin-images-secret';
+
+const SIGNED_URL_TTL = 60 * 60;
+
+// Renditions are never overwritten, so browsers may keep them for a year
+const RENDITION_CACHE_CONTROL = String(365 * 24 * 60 * 60);
+
+type PinImage = Pick<Pin, 'image_url' | 'visibility'> & Partial<Pick<Pin, 'image_variants'>>;
+
+// Secret pins keep storage paths in image_url and their variants; swap them
+// for signed URLs
+export const resolveImageUrls = async <T extends PinImage>(pins: T[]): Promise<T[]> => {
+  const paths = pins
+    .filter(pin => pin.visibility === 'secret')
+    .flatMap(pin => [pin.image_url, ...(pin.image_variants ?? []).map(variant => variant.url)])
+    .filter(url => !url.startsWith('http'));
+  if (paths.length === 0) return pins;
+
+  const { data, error } = await supabase.storage
+    .from(SECRET_IMAGES_BUCKET)
+    .createSignedUrls([...new Set(paths)], SIGNED_URL_TTL);
+
+  if (error) throw error;
+
+  const byPath = new Map((data || []).map(signed => [signed.path, signed.signedUrl]));
+  const sign = (url: string) => byPath.get(url) ?? url;
+
+  return pins.map(pin => (
+    pin.visibility === 'secret' ? {
+      ...pin,
+      image_url: sign(pin.image_url),
+      image_variants: pin.image_variants?.map(variant => ({ ...variant, url: sign(variant.url) }))
+    } : pin
+  ));
+};
+
+export interface UploadedPinImage {
+  imageUrl: string;
+  width: number;
+  height: number;
+  variants: ImageVariant[];
+  placeholder: string | null;
+  dominantColor: string | null;
+}
+
+// Stores an upload as a set of renditions under <user>/<timestamp>/, with
+// image_url pointing at the full-size one. Secret pins go to the private
+// bucket and keep storage paths for signing. The original file itself is
+// never stored.
+export const uploadPinImage = async (userId: string, visibility: PinVisibility, file: File): Promise<UploadedPinImage> => {
+  const isSecret = visibility === 'secret';
+  const storage = supabase.storage.from(isSecret ? SECRET_IMAGES_BUCKET : PUBLIC_IMAGES_BUCKET);
+  const toUrl = (path: string) => (isSecret ? path : storage.getPublicUrl(path).data.publicUrl);
+
+  const processed = await prepareUpload(file);
+
+  const folder = `${userId}/${Date.now()}`;
+  const extension = imageExtension(processed.type);
+  const variants = await Promise.all(processed.renditions.map(async (rendition) => {
+    const name = rendition.width === processed.width ? 'original' : rendition.width;
+    const path = `${folder}/${name}.${extension}`;
+    const { error } = await storage.upload(path, rendition.blob, {
+      contentType: processed.type,
+      cacheControl: RENDITION_CACHE_CONTROL
+    });
+    if (error) throw error;
+
+    return { width: rendition.width, url: toUrl(path) };
+  }));
+
+  return {
+    imageUrl: variants[variants.length - 1].url,
+    width: processed.width,
+    height: processed.height,
+    variants,
+    placeholder: processed.placeholder,
+    dominantColor: processed.dominantColor
+  };
+};
+
+// Feed rows carry the author and counters inline; reshape them into pins and
+// resolve their image URLs
+export const fromFeedRows = async (rows: FeedRow[]): Promise<Pin[]> => {
+  const pins = rows.map(row => ({
+    id: row.id,
+    title: row.title,
+    description: row.description,
+    image_url: row.image_url,
+    image_variants: row.image_variants as unknown as ImageVariant[] | null,
+    width: row.width,
+    height: row.height,
+    placeholder: row.placeholder,
+    dominant_color: row.dominant_color,
+    camera_info: row.camera_info as CameraInfo | null,
+    tags: row.tags,
+    user_id: row.user_id,
+    created_at: row.created_at,
+    visibility: row.visibility,
+    like_count: row.like_count ?? 0,
+    save_count: row.save_count ?? 0,
+    comment_count: row.comment_count ?? 0,
+    profiles: {
+      username: row.author_username,
+      display_name: row.author_display_name,
+      avatar_url: row.author_avatar_url
+    }
+  }));
+
+  return resolveImageUrls(pins);
+};
+
+// Which of the given pins the viewer has liked and saved
+export const viewerInteractions = (rows: FeedRow[]) => ({
+  liked: new Set(rows.filter(row => row.viewer_liked).map(row => row.id)),
+  saved: new Set(rows.filter(row => row.viewer_saved).map(row => row.id)),
+});
+
+export const toggleInSet = (set: Set<string>, id: string, present: boolean) => {
+  const next = new Set(set);
+  if (present) {
+    next.add(id);
+  } else {
+    next.delete(id);
+  }
+  return next;
+};
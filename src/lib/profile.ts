@@ -0,0 +1,26 @@
+import { supabase } from '@/integrations/supabase/client';
+
+// Mirrors the profiles_username_format check constraint
+export const USERNAME_PATTERN = /^[A-Za-z0-9_.-]{3,30}$/;
+
+export const USERNAME_HINT = '3-30 characters: letters, numbers, dots, dashes and underscores';
+
+export const sanitizeUsername = (value: string) => {
+  const cleaned = value.replace(/[^A-Za-z0-9_.-]/g, '').slice(0, 30);
+  return cleaned.length >= 3 ? cleaned : `${cleaned}user`.slice(0, 30);
+};
+
+export const isUsernameTaken = async (username: string, exceptUserId?: string) => {
+  let query = supabase
+    .from('profiles')
+    .select('user_id')
+    .eq('username', username);
+
+  if (exceptUserId) {
+    query = query.neq('user_id', exceptUserId);
+  }
+
+  const { data, error } = await query.limit(1);
+  if (error) throw error;
+  return (data || []).length > 0;
+};
@@ -0,0 +1,145 @@
+// Parses the search box syntax into a typed query and back:
+//
+//   kitchen "open shelves" -tiles tag:kitchen user:ana after:2024-12-31 before:2025-02-01 has:description
+//
+// Unknown operators and malformed values are kept as plain words, so a typo
+// never silently drops part of the query.
+
+import { normalizeTag } from '@/lib/tags';
+
+export type SearchField = 'description' | 'tags';
+
+export interface SearchQuery {
+  terms: string[];
+  phrases: string[];
+  excluded: string[];
+  tags: string[];
+  users: string[];
+  before?: string;
+  after?: string;
+  has: SearchField[];
+}
+
+export interface SearchChip {
+  key: string;
+  label: string;
+  // The query with this filter taken out
+  without: SearchQuery;
+}
+
+const SEARCH_FIELDS: SearchField[] = ['description', 'tags'];
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// An optional "-", an optional "key:", then a quoted string or a bare word
+const TOKEN_PATTERN = /(-)?(?:([a-z]+):)?(?:"([^"]*)"?|(\S+))/gi;
+
+export const emptySearchQuery = (): SearchQuery => ({
+  terms: [],
+  phrases: [],
+  excluded: [],
+  tags: [],
+  users: [],
+  has: []
+});
+
+// Date.parse rolls days over (2025-02-30 is March 2nd), so a date only
+// counts when it reads back the same
+const isDate = (value: string) => {
+  if (!DATE_PATTERN.test(value)) return false;
+  const date = new Date(value);
+  return !Number.isNaN(date.getTime()) && date.toISOString().slice(0, 10) === value;
+};
+
+const addUnique = <T>(list: T[], value: T) => {
+  if (!list.includes(value)) list.push(value);
+};
+
+export const parseSearchQuery = (input: string): SearchQuery => {
+  const query = emptySearchQuery();
+
+  for (const match of input.matchAll(TOKEN_PATTERN)) {
+    const [raw, negated, rawKey, quoted, bare] = match;
+    const key = rawKey?.toLowerCase();
+    const value = (quoted ?? bare ?? '').trim();
+    if (!value) continue;
+
+    if (!key) {
+      if (negated) addUnique(query.excluded, value);
+      else if (quoted !== undefined) addUnique(query.phrases, value);
+      else addUnique(query.terms, value);
+      continue;
+    }
+
+    if (key === 'tag' && !negated) {
+      const tag = normalizeTag(value);
+      if (tag) addUnique(query.tags, tag);
+    } else if (key === 'user' && !negated) {
+      addUnique(query.users, value.replace(/^@/, '').toLowerCase());
+    } else if (key === 'before' && !negated && isDate(value)) {
+      query.before = value;
+    } else if (key === 'after' && !negated && isDate(value)) {
+      query.after = value;
+    } else if (key === 'has' && !negated && SEARCH_FIELDS.includes(value.toLowerCase() as SearchField)) {
+      addUnique(query.has, value.toLowerCase() as SearchField);
+    } else {
+      addUnique(query.terms, raw.trim());
+    }
+  }
+
+  return query;
+};
+
+const quote = (value: string) => (/\s/.test(value) ? `"${value}"` : value);
+
+export const stringifySearchQuery = (query: SearchQuery): string => [
+  ...query.terms,
+  ...query.phrases.map(phrase => `"${phrase}"`),
+  ...query.excluded.map(term => `-${quote(term)}`),
+  ...query.tags.map(tag => `tag:${quote(tag)}`),
+  ...query.users.map(user => `user:${user}`),
+  ...(query.after ? [`after:${query.after}`] : []),
+  ...(query.before ? [`before:${query.before}`] : []),
+  ...query.has.map(field => `has:${field}`)
+].join(' ');
+
+// The free-text part in websearch_to_tsquery syntax
+export const toTextQuery = (query: SearchQuery) => stringifySearchQuery({
+  ...emptySearchQuery(),
+  terms: query.terms,
+  phrases: query.phrases,
+  excluded: query.excluded
+});
+
+export const isEmptySearchQuery = (query: SearchQuery) => (
+  query.terms.length === 0 &&
+  query.phrases.length === 0 &&
+  query.excluded.length === 0 &&
+  query.tags.length === 0 &&
+  query.users.length === 0 &&
+  !query.before &&
+  !query.after &&
+  query.has.length === 0
+);
+
+// Every filter and phrase as a removable chip; plain words stay in the box
+export const searchChips = (query: SearchQuery): SearchChip[] => {
+  const listChips = (
+    field: 'phrases' | 'excluded' | 'tags' | 'users' | 'has',
+    label: (value: string) => string
+  ) => (query[field] as string[]).map(value => ({
+    key: `${field}:${value}`,
+    label: label(value),
+    without: { ...query, [field]: (query[field] as string[]).filter(v => v !== value) }
+  }));
+
+  return [
+    ...listChips('phrases', phrase => `“${phrase}”`),
+    ...listChips('excluded', term => `without ${term}`),
+    ...listChips('tags', tag => `#${tag}`),
+    ...listChips('users', user => `@${user}`),
+    ...(query.after ? [{ key: 'after', label: `after ${query.after}`, without: { ...query, after: undefined } }] : []),
+    ...(query.before ? [{ key: 'before', label: `before ${query.before}`, without: { ...query, before: undefined } }] : []),
+    ...listChips('has', field => `has ${field}`)
+  ];
+};
@@ -0,0 +1,78 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+
+export const SUGGESTION_LIMIT = 5;
+export const RECENT_SEARCH_LIMIT = 8;
+
+export interface TagSuggestion {
+  tag: string;
+  pin_count: number;
+}
+
+export type UserSuggestion = Tables<'profiles'>;
+
+// The text to look up: operators such as tag: and user: narrow the kind of
+// suggestion, everything else looks up both tags and users
+export const suggestionTerm = (input: string) => {
+  const term = input.trim();
+  const match = term.match(/^(tag:|#)(.*)$/i);
+  if (match) return { kind: 'tag' as const, prefix: match[2].trim() };
+
+  const userMatch = term.match(/^(user:|@)(.*)$/i);
+  if (userMatch) return { kind: 'user' as const, prefix: userMatch[2].trim() };
+
+  return { kind: 'any' as const, prefix: term };
+};
+
+export const fetchTagSuggestions = async (prefix: string): Promise<TagSuggestion[]> => {
+  const { data, error } = await supabase.rpc('suggest_tags', {
+    prefix,
+    max_results: SUGGESTION_LIMIT
+  });
+
+  if (error) throw error;
+  return data || [];
+};
+
+export const fetchUserSuggestions = async (prefix: string): Promise<UserSuggestion[]> => {
+  const { data, error } = await supabase.rpc('suggest_users', {
+    prefix,
+    max_results: SUGGESTION_LIMIT
+  });
+
+  if (error) throw error;
+  return data || [];
+};
+
+export const fetchRecentSearches = async (userId: string): Promise<string[]> => {
+  const { data, error } = await supabase
+    .from('search_history')
+    .select('query')
+    .eq('user_id', userId)
+    .order('searched_at', { ascending: false })
+    .limit(RECENT_SEARCH_LIMIT);
+
+  if (error) throw error;
+  return (data || []).map(entry => entry.query);
+};
+
+// Repeating a search moves it back to the top rather than adding a duplicate
+export const recordSearch = async (userId: string, query: string) => {
+  const { error } = await supabase
+    .from('search_history')
+    .upsert(
+      { user_id: userId, query: query.trim(), searched_at: new Date().toISOString() },
+      { onConflict: 'user_id,query' }
+    );
+
+  if (error) throw error;
+};
+
+export const clearSearchHistory = async (userId: string) => {
+  const { error } = await supabase
+    .from('search_history')
+    .delete()
+    .eq('user_id', userId);
+
+  if (error) throw error;
+};
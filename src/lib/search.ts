@@ -0,0 +1,43 @@
+import { supabase } from '@/integrations/supabase/client';
+import { fromFeedRows, viewerInteractions } from '@/lib/pins';
+import { toTextQuery, type SearchQuery } from '@/lib/search-query';
+import type { Pin } from '@/types/pin';
+
+export const SEARCH_PAGE_SIZE = 30;
+
+export const searchPath = (query: string) => `/search?q=${encodeURIComponent(query.trim())}`;
+
+export interface SearchPage {
+  pins: Pin[];
+  hasMore: boolean;
+  liked: Set<string>;
+  saved: Set<string>;
+}
+
+// One page of ranked search results. Ranking is not a stable sort key, so
+// pages are addressed by offset rather than by cursor.
+export const searchPins = async (query: SearchQuery, offset = 0): Promise<SearchPage> => {
+  // One extra row tells us whether another page exists
+  const { data, error } = await supabase.rpc('search_pins', {
+    query: toTextQuery(query),
+    tag_filter: query.tags,
+    user_filter: query.users,
+    created_before: query.before,
+    created_after: query.after,
+    has_description: query.has.includes('description'),
+    has_tags: query.has.includes('tags'),
+    page_size: SEARCH_PAGE_SIZE + 1,
+    page_offset: offset
+  });
+
+  if (error) throw error;
+
+  const rows = data || [];
+  const page = rows.slice(0, SEARCH_PAGE_SIZE);
+
+  return {
+    pins: await fromFeedRows(page),
+    hasMore: rows.length > SEARCH_PAGE_SIZE,
+    ...viewerInteractions(page)
+  };
+};
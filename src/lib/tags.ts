@@ -0,0 +1,46 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+
+export type Tag = Tables<'tags'>;
+
+export const TAG_MAX_LENGTH = 50;
+
+// Mirrors public.normalize_tag, which has the final say on write
+export const normalizeTag = (value: string) => value
+  .trim()
+  .replace(/^#+/, '')
+  .toLowerCase()
+  .replace(/[^\p{L}\p{N}]+/gu, '-')
+  .slice(0, TAG_MAX_LENGTH)
+  .replace(/^-+|-+$/g, '');
+
+// Comma-separated input to unique canonical tags, in the order given
+export const parseTags = (input: string) => [
+  ...new Set(input.split(',').map(normalizeTag).filter(Boolean))
+];
+
+export const tagPath = (tag: string) => `/tag/${encodeURIComponent(normalizeTag(tag))}`;
+
+export interface TagDetails {
+  tag: Tag;
+  pinCount: number;
+}
+
+export const fetchTag = async (slug: string): Promise<TagDetails | null> => {
+  const { data: tag, error } = await supabase
+    .from('tags')
+    .select('*')
+    .eq('slug', slug)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!tag) return null;
+
+  const { count, error: countError } = await supabase
+    .from('pin_tags')
+    .select('pin_id', { count: 'exact', head: true })
+    .eq('tag_id', tag.id);
+
+  if (countError) throw countError;
+  return { tag, pinCount: count ?? 0 };
+};
@@ -1,4 +1,5 @@
 import React, { useState } from 'react';
+import { useLocation } from 'react-router-dom';
 import { useAuth } from '@/contexts/AuthContext';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -7,11 +8,14 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Label } from '@/components/ui/label';
 import { toast } from '@/hooks/use-toast';
 import { Eye, EyeOff, Pin } from 'lucide-react';
+import { USERNAME_HINT, USERNAME_PATTERN } from '@/lib/profile';
+import { returnPath } from '@/lib/auth';
 
 const Auth = () => {
   const [showPassword, setShowPassword] = useState(false);
   const [loading, setLoading] = useState(false);
   const { signIn, signUp } = useAuth();
+  const location = useLocation();
 
   const [signInData, setSignInData] = useState({
     email: '',
@@ -29,7 +33,7 @@ const Auth = () => {
     setLoading(true);
     
     try {
-      const { error } = await signIn(signInData.email, signInData.password);
+      const { error } = await signIn(signInData.email, signInData.password, returnPath(location.state));
       
       if (error) {
         toast({
@@ -165,6 +169,8 @@ const Auth = () => {
                       placeholder="Choose a username"
                       value={signUpData.username}
                       onChange={(e) => setSignUpData({ ...signUpData, username: e.target.value })}
+                      pattern={USERNAME_PATTERN.source}
+                      title={USERNAME_HINT}
                       required
                     />
                   </div>
@@ -0,0 +1,681 @@
+import { useEffect, useLayoutEffect, useRef, useState } from 'react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import { useAuth, type Profile } from '@/contexts/AuthContext';
+import { supabase } from '@/integrations/supabase/client';
+import Navbar from '@/components/Navbar';
+import MasonryGrid from '@/components/MasonryGrid';
+import BoardFormDialog from '@/components/BoardFormDialog';
+import SectionFormDialog from '@/components/SectionFormDialog';
+import BoardMembersDialog from '@/components/BoardMembersDialog';
+import { Button } from '@/components/ui/button';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
+  DropdownMenuTrigger
+} from '@/components/ui/dropdown-menu';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle
+} from '@/components/ui/alert-dialog';
+import { fromFeedRows, toggleInSet, viewerInteractions } from '@/lib/pins';
+import {
+  boardPath,
+  canEditBoard,
+  fetchBoardMembers,
+  type Board as BoardRow,
+  type BoardMember,
+  type BoardSection
+} from '@/lib/boards';
+import { toast } from '@/hooks/use-toast';
+import { useScrollRestoration } from '@/hooks/use-scroll-restoration';
+import {
+  ArrowDown,
+  ArrowUp,
+  Check,
+  FolderInput,
+  ImageIcon,
+  Loader2,
+  Lock,
+  MoreHorizontal,
+  Pencil,
+  Plus,
+  Trash2,
+  UserPlus,
+  X
+} from 'lucide-react';
+import type { Pin } from '@/types/pin';
+
+const Board = () => {
+  const { username, boardSlug } = useParams<{ username: string; boardSlug: string }>();
+  const { user } = useAuth();
+  const userId = user?.id;
+  const navigate = useNavigate();
+  const [owner, setOwner] = useState<Profile | null>(null);
+  const [board, setBoard] = useState<BoardRow | null>(null);
+  const [pins, setPins] = useState<Pin[]>([]);
+  const [sections, setSections] = useState<BoardSection[]>([]);
+  const [pinSections, setPinSections] = useState<Record<string, string | null>>({});
+  const [members, setMembers] = useState<BoardMember[]>([]);
+  const [likedPins, setLikedPins] = useState<Set<string>>(new Set());
+  const [savedPins, setSavedPins] = useState<Set<string>>(new Set());
+  const [loading, setLoading] = useState(true);
+  const [editOpen, setEditOpen] = useState(false);
+  const [deleteOpen, setDeleteOpen] = useState(false);
+  const [sectionDialog, setSectionDialog] = useState<{ open: boolean; section?: BoardSection }>({ open: false });
+  const [sectionToDelete, setSectionToDelete] = useState<BoardSection | null>(null);
+  const [membersOpen, setMembersOpen] = useState(false);
+  const [contentHeight, setContentHeight] = useState(0);
+  const mainRef = useRef<HTMLElement>(null);
+
+  const isOwner = !!board && board.user_id === userId;
+  const canEdit = canEditBoard(members.find(member => member.user_id === userId)?.role);
+
+  useEffect(() => {
+    if (!username || !boardSlug) return;
+
+    const fetchBoard = async () => {
+      setLoading(true);
+
+      try {
+        const { data: ownerData, error: ownerError } = await supabase
+          .from('profiles')
+          .select('*')
+          .eq('username', username)
+          .maybeSingle();
+
+        if (ownerError) throw ownerError;
+        setOwner(ownerData);
+        if (!ownerData) {
+          setBoard(null);
+          return;
+        }
+
+        const { data: boardData, error: boardError } = await supabase
+          .from('boards')
+          .select('*')
+          .eq('user_id', ownerData.user_id)
+          .eq('slug', boardSlug)
+          .maybeSingle();
+
+        if (boardError) throw boardError;
+        setBoard(boardData);
+        if (!boardData) return;
+
+        const [
+          { data: savesData, error: savesError },
+          { data: sectionsData, error: sectionsError },
+          membersData
+        ] = await Promise.all([
+          supabase
+            .from('saves')
+            .select('pin_id, section_id')
+            .eq('board_id', boardData.id)
+            .order('created_at', { ascending: false }),
+          supabase
+            .from('board_sections')
+            .select('*')
+            .eq('board_id', boardData.id)
+            .order('position')
+            .order('created_at'),
+          fetchBoardMembers(boardData.id)
+        ]);
+
+        if (savesError) throw savesError;
+        if (sectionsError) throw sectionsError;
+
+        setSections(sectionsData || []);
+        setMembers(membersData);
+        setPinSections(Object.fromEntries((savesData || []).map(save => [save.pin_id, save.section_id])));
+
+        let boardPins: Pin[] = [];
+        if (savesData && savesData.length > 0) {
+          const { data: pinsData, error: pinsError } = await supabase
+            .rpc('board_pins', { target_board_id: boardData.id });
+
+          if (pinsError) throw pinsError;
+
+          const rows = pinsData || [];
+          const { liked, saved } = viewerInteractions(rows);
+          boardPins = await fromFeedRows(rows);
+          setLikedPins(liked);
+          setSavedPins(saved);
+        }
+        setPins(boardPins);
+      } catch (error) {
+        toast({
+          title: "Error",
+          description: "Failed to load board",
+          variant: "destructive"
+        });
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchBoard();
+  }, [username, boardSlug, userId]);
+
+  // Each section has its own grid, so the page restores the scroll position
+  // once the whole board is laid out rather than letting every grid try
+  useLayoutEffect(() => {
+    const main = mainRef.current;
+    if (!main) return;
+
+    setContentHeight(main.offsetHeight);
+    const observer = new ResizeObserver((entries) => {
+      setContentHeight(entries[0].contentRect.height);
+    });
+
+    observer.observe(main);
+    return () => observer.disconnect();
+  }, [loading, board]);
+
+  useScrollRestoration({
+    contentHeight,
+    hasMore: loading || contentHeight === 0,
+    loadingMore: loading
+  });
+
+  const handleLike = (pinId: string, liked: boolean) => {
+    setLikedPins(prev => toggleInSet(prev, pinId, liked));
+  };
+
+  const handleSave = (pinId: string, saved: boolean) => {
+    setSavedPins(prev => toggleInSet(prev, pinId, saved));
+  };
+
+  const handleDelete = (pinId: string) => {
+    setPins(prev => prev.filter(pin => pin.id !== pinId));
+  };
+
+  const handleBoardSaved = (updated: BoardRow) => {
+    setBoard(updated);
+    if (updated.slug !== boardSlug) {
+      navigate(boardPath(username, updated.slug), { replace: true });
+    }
+  };
+
+  const handleSetCover = async (pinId: string) => {
+    if (!board) return;
+
+    const { error } = await supabase
+      .from('boards')
+      .update({ cover_pin_id: pinId })
+      .eq('id', board.id);
+
+    if (error) {
+      toast({
+        title: "Error",
+        description: "Failed to update board cover",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    setBoard({ ...board, cover_pin_id: pinId });
+    toast({
+      title: "Cover updated",
+      description: "This pin is now the board cover"
+    });
+  };
+
+  const handleRemovePin = async (pinId: string) => {
+    if (!board) return;
+
+    const { error } = await supabase
+      .from('saves')
+      .delete()
+      .eq('board_id', board.id)
+      .eq('pin_id', pinId);
+
+    if (error) {
+      toast({
+        title: "Error",
+        description: "Failed to remove pin from board",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    setPins(prev => prev.filter(pin => pin.id !== pinId));
+  };
+
+  const handleSaveSection = async (name: string) => {
+    if (!board) return false;
+
+    const editing = sectionDialog.section;
+    const { data, error } = editing
+      ? await supabase
+          .from('board_sections')
+          .update({ name })
+          .eq('id', editing.id)
+          .select()
+          .single()
+      : await supabase
+          .from('board_sections')
+          .insert({
+            board_id: board.id,
+            name,
+            position: sections.reduce((max, section) => Math.max(max, section.position), 0) + 1
+          })
+          .select()
+          .single();
+
+    if (error) {
+      toast({
+        title: "Error",
+        description: editing ? "Failed to rename section" : "Failed to add section",
+        variant: "destructive"
+      });
+      return false;
+    }
+
+    setSections(prev => editing
+      ? prev.map(section => section.id === data.id ? data : section)
+      : [...prev, data]
+    );
+    return true;
+  };
+
+  const handleMoveSection = async (index: number, offset: number) => {
+    if (!board) return;
+
+    const target = index + offset;
+    if (target < 0 || target >= sections.length) return;
+
+    const previous = sections;
+    const reordered = [...sections];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+    setSections(reordered.map((section, position) => ({ ...section, position: position + 1 })));
+
+    const { error } = await supabase.rpc('reorder_board_sections', {
+      target_board_id: board.id,
+      section_ids: reordered.map(section => section.id)
+    });
+
+    if (error) {
+      setSections(previous);
+      toast({
+        title: "Error",
+        description: "Failed to reorder sections",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const handleDeleteSection = async () => {
+    if (!sectionToDelete) return;
+
+    const { error } = await supabase
+      .from('board_sections')
+      .delete()
+      .eq('id', sectionToDelete.id);
+
+    if (error) {
+      toast({
+        title: "Error",
+        description: "Failed to delete section",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    setSections(prev => prev.filter(section => section.id !== sectionToDelete.id));
+    setPinSections(prev => Object.fromEntries(
+      Object.entries(prev).map(([pinId, sectionId]) => [
+        pinId,
+        sectionId === sectionToDelete.id ? null : sectionId
+      ])
+    ));
+    setSectionToDelete(null);
+  };
+
+  const handleMovePin = async (pinId: string, sectionId: string | null) => {
+    if (!board) return;
+
+    const { error } = await supabase
+      .from('saves')
+      .update({ section_id: sectionId })
+      .eq('board_id', board.id)
+      .eq('pin_id', pinId);
+
+    if (error) {
+      toast({
+        title: "Error",
+        description: "Failed to move pin",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    setPinSections(prev => ({ ...prev, [pinId]: sectionId }));
+  };
+
+  const handleDeleteBoard = async () => {
+    if (!board) return;
+
+    const { error } = await supabase
+      .from('boards')
+      .delete()
+      .eq('id', board.id);
+
+    if (error) {
+      toast({
+        title: "Error",
+        description: "Failed to delete board",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    toast({
+      title: "Board deleted",
+      description: `${board.name} has been deleted`
+    });
+    navigate(`/u/${username}`, { replace: true });
+  };
+
+  // A secret board is no longer visible once you leave it, so head back to
+  // your own profile rather than reloading into "Board not found"
+  const handleLeave = () => {
+    toast({
+      title: "Left board",
+      description: `You are no longer a collaborator on ${board.name}`
+    });
+    navigate('/profile', { replace: true });
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-background">
+        <Navbar />
+        <div className="flex items-center justify-center h-96">
+          <Loader2 className="w-8 h-8 animate-spin text-muted-foreground" />
+        </div>
+      </div>
+    );
+  }
+
+  if (!owner || !board) {
+    return (
+      <div className="min-h-screen bg-background">
+        <Navbar />
+        <div className="text-center py-16">
+          <h2 className="text-2xl font-semibold text-foreground mb-4">Board not found</h2>
+          <p className="text-muted-foreground mb-6">
+            This board may have been renamed or deleted.
+          </p>
+          <Button onClick={() => navigate(owner ? `/u/${owner.username}` : '/')}>
+            {owner ? 'Back to profile' : 'Back to home'}
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  const unsectionedPins = pins.filter(pin => !pinSections[pin.id]);
+
+  const renderEditorMenuItems = (pin: Pin) => (
+    <>
+      {sections.length > 0 && (
+        <DropdownMenuSub>
+          <DropdownMenuSubTrigger>
+            <FolderInput className="mr-2 h-4 w-4" />
+            Move to section
+          </DropdownMenuSubTrigger>
+          <DropdownMenuSubContent>
+            {[{ id: null, name: 'No section' }, ...sections].map((section) => (
+              <DropdownMenuItem key={section.id ?? 'none'} onClick={() => handleMovePin(pin.id, section.id)}>
+                <Check className={`mr-2 h-4 w-4 ${(pinSections[pin.id] ?? null) === section.id ? '' : 'invisible'}`} />
+                {section.name}
+              </DropdownMenuItem>
+            ))}
+          </DropdownMenuSubContent>
+        </DropdownMenuSub>
+      )}
+      {isOwner && board.cover_pin_id !== pin.id && (
+        <DropdownMenuItem onClick={() => handleSetCover(pin.id)}>
+          <ImageIcon className="mr-2 h-4 w-4" />
+          Set as board cover
+        </DropdownMenuItem>
+      )}
+      <DropdownMenuItem onClick={() => handleRemovePin(pin.id)}>
+        <X className="mr-2 h-4 w-4" />
+        Remove from board
+      </DropdownMenuItem>
+    </>
+  );
+
+  const renderGrid = (gridPins: Pin[]) => (
+    <MasonryGrid
+      pins={gridPins}
+      likedPins={likedPins}
+      savedPins={savedPins}
+      onLike={handleLike}
+      onSave={handleSave}
+      onDelete={handleDelete}
+      renderMenuItems={canEdit ? renderEditorMenuItems : undefined}
+      restoreScroll={false}
+    />
+  );
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Navbar />
+
+      <main ref={mainRef} className="max-w-7xl mx-auto">
+        <header className="flex flex-col items-center text-center px-4 pt-10 pb-6">
+          <h1 className="text-4xl font-bold text-foreground break-words">{board.name}</h1>
+          {board.visibility === 'secret' && (
+            <p className="flex items-center text-sm text-muted-foreground mt-2">
+              <Lock className="w-4 h-4 mr-1" />
+              Secret board
+            </p>
+          )}
+          {board.description && (
+            <p className="text-muted-foreground max-w-xl mt-3 whitespace-pre-line">{board.description}</p>
+          )}
+          <Link
+            to={`/u/${owner.username}`}
+            className="flex items-center mt-4 hover:opacity-80 transition-opacity"
+          >
+            <Avatar className="h-8 w-8 mr-2">
+              <AvatarImage src={owner.avatar_url} />
+              <AvatarFallback className="text-xs">
+                {owner.username.charAt(0).toUpperCase()}
+              </AvatarFallback>
+            </Avatar>
+            <span className="text-sm font-medium text-foreground">
+              {owner.display_name || owner.username}
+            </span>
+          </Link>
+          {(members.length > 1 || isOwner) && (
+            <button
+              type="button"
+              onClick={() => setMembersOpen(true)}
+              className="flex items-center mt-3 hover:opacity-80 transition-opacity"
+              aria-label="Show collaborators"
+            >
+              <div className="flex -space-x-2">
+                {members.slice(0, 5).map((member) => (
+                  <Avatar key={member.user_id} className="h-8 w-8 border-2 border-background">
+                    <AvatarImage src={member.profile?.avatar_url} />
+                    <AvatarFallback className="text-xs">
+                      {member.profile?.username?.charAt(0).toUpperCase() || 'U'}
+                    </AvatarFallback>
+                  </Avatar>
+                ))}
+              </div>
+              {members.length > 5 && (
+                <span className="ml-2 text-xs text-muted-foreground">+{members.length - 5}</span>
+              )}
+              {isOwner && (
+                <span className="ml-2 flex items-center text-sm font-medium text-foreground">
+                  <UserPlus className="w-4 h-4 mr-1" />
+                  Invite
+                </span>
+              )}
+            </button>
+          )}
+          <p className="text-sm text-muted-foreground mt-2">
+            {pins.length} {pins.length === 1 ? 'pin' : 'pins'}
+          </p>
+          {isOwner && (
+            <div className="flex gap-2 mt-4">
+              <Button variant="secondary" size="sm" onClick={() => setEditOpen(true)}>
+                <Pencil className="w-4 h-4 mr-2" />
+                Edit board
+              </Button>
+              <Button variant="ghost" size="sm" className="text-destructive" onClick={() => setDeleteOpen(true)}>
+                <Trash2 className="w-4 h-4 mr-2" />
+                Delete
+              </Button>
+            </div>
+          )}
+        </header>
+
+        {canEdit && (
+          <div className="flex justify-end px-4">
+            <Button variant="secondary" size="sm" onClick={() => setSectionDialog({ open: true })}>
+              <Plus className="w-4 h-4 mr-2" />
+              Add section
+            </Button>
+          </div>
+        )}
+
+        {sections.map((section, index) => {
+          const sectionPins = pins.filter(pin => pinSections[pin.id] === section.id);
+
+          return (
+            <section key={section.id} className="pt-6">
+              <div className="flex items-center justify-between px-4">
+                <h2 className="text-xl font-semibold text-foreground">
+                  {section.name}
+                  <span className="ml-2 text-sm font-normal text-muted-foreground">
+                    {sectionPins.length} {sectionPins.length === 1 ? 'pin' : 'pins'}
+                  </span>
+                </h2>
+                {canEdit && (
+                  <DropdownMenu>
+                    <DropdownMenuTrigger asChild>
+                      <Button variant="ghost" size="sm" aria-label={`${section.name} options`}>
+                        <MoreHorizontal className="w-4 h-4" />
+                      </Button>
+                    </DropdownMenuTrigger>
+                    <DropdownMenuContent align="end">
+                      <DropdownMenuItem onClick={() => setSectionDialog({ open: true, section })}>
+                        <Pencil className="mr-2 h-4 w-4" />
+                        Rename
+                      </DropdownMenuItem>
+                      <DropdownMenuItem disabled={index === 0} onClick={() => handleMoveSection(index, -1)}>
+                        <ArrowUp className="mr-2 h-4 w-4" />
+                        Move up
+                      </DropdownMenuItem>
+                      <DropdownMenuItem
+                        disabled={index === sections.length - 1}
+                        onClick={() => handleMoveSection(index, 1)}
+                      >
+                        <ArrowDown className="mr-2 h-4 w-4" />
+                        Move down
+                      </DropdownMenuItem>
+                      <DropdownMenuSeparator />
+                      <DropdownMenuItem onClick={() => setSectionToDelete(section)} className="text-destructive">
+                        <Trash2 className="mr-2 h-4 w-4" />
+                        Delete section
+                      </DropdownMenuItem>
+                    </DropdownMenuContent>
+                  </DropdownMenu>
+                )}
+              </div>
+              {sectionPins.length === 0 ? (
+                <p className="text-muted-foreground text-sm px-4 py-6">No pins in this section yet</p>
+              ) : (
+                renderGrid(sectionPins)
+              )}
+            </section>
+          );
+        })}
+
+        {pins.length === 0 ? (
+          <p className="text-center text-muted-foreground py-16">
+            {canEdit ? 'Save some pins to this board to get started' : 'This board is empty'}
+          </p>
+        ) : unsectionedPins.length > 0 && (
+          <section className="pt-6">
+            {sections.length > 0 && (
+              <h2 className="text-xl font-semibold text-foreground px-4">More pins</h2>
+            )}
+            {renderGrid(unsectionedPins)}
+          </section>
+        )}
+      </main>
+
+      <BoardFormDialog
+        open={editOpen}
+        onOpenChange={setEditOpen}
+        board={board}
+        onSaved={handleBoardSaved}
+      />
+
+      <BoardMembersDialog
+        board={board}
+        members={members}
+        open={membersOpen}
+        onOpenChange={setMembersOpen}
+        onMembersChange={setMembers}
+        onLeave={handleLeave}
+      />
+
+      <SectionFormDialog
+        open={sectionDialog.open}
+        onOpenChange={(open) => setSectionDialog(prev => ({ ...prev, open }))}
+        initialName={sectionDialog.section?.name}
+        onSubmit={handleSaveSection}
+      />
+
+      <AlertDialog open={!!sectionToDelete} onOpenChange={(open) => !open && setSectionToDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete this section?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The pins in {sectionToDelete?.name} stay on the board, outside any section.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDeleteSection}>Delete</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      <AlertDialog open={deleteOpen} onOpenChange={setDeleteOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete this board?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {board.name} and the saves in it will be removed. The pins themselves are not deleted.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDeleteBoard}>Delete</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
+export default Board;
@@ -1,11 +1,24 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { useAuth } from '@/contexts/AuthContext';
 import { supabase } from '@/integrations/supabase/client';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
+import { Switch } from '@/components/ui/switch';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from '@/components/ui/select';
+import type { Json } from '@/integrations/supabase/types';
+import { formatCameraInfo, readCameraInfo, type CameraInfo } from '@/lib/exif';
+import { uploadPinImage } from '@/lib/pins';
+import { parseTags } from '@/lib/tags';
+import type { PinVisibility } from '@/types/pin';
 import { toast } from '@/hooks/use-toast';
 import { Upload, ArrowLeft, X } from 'lucide-react';
 import { useNavigate } from 'react-router-dom';
@@ -16,12 +29,30 @@ const CreatePin = () => {
   const [loading, setLoading] = useState(false);
   const [imageFile, setImageFile] = useState<File | null>(null);
   const [imagePreview, setImagePreview] = useState<string>('');
+  const [cameraInfo, setCameraInfo] = useState<CameraInfo | null>(null);
   const [formData, setFormData] = useState({
     title: '',
     description: '',
-    tags: ''
+    tags: '',
+    visibility: 'public' as PinVisibility,
+    showCameraInfo: false
   });
 
+  // Camera details are offered as an opt-in; everything else in the photo's
+  // metadata is dropped when the image is re-encoded for upload
+  useEffect(() => {
+    setCameraInfo(null);
+    if (!imageFile) return;
+
+    let cancelled = false;
+    readCameraInfo(imageFile).then((info) => {
+      if (!cancelled) setCameraInfo(info);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [imageFile]);
+
   const handleImageUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (file) {
@@ -64,26 +95,11 @@ const CreatePin = () => {
     setLoading(true);
 
     try {
-      // Upload image to Supabase Storage
-      const fileExt = imageFile.name.split('.').pop();
-      const fileName = `${user.id}/${Date.now()}.${fileExt}`;
-      
-      const { error: uploadError } = await supabase.storage
-        .from('pin-images')
-        .upload(fileName, imageFile);
-
-      if (uploadError) throw uploadError;
-
-      // Get public URL
-      const { data: { publicUrl } } = supabase.storage
-        .from('pin-images')
-        .getPublicUrl(fileName);
-
-      // Parse tags
-      const tags = formData.tags
-        .split(',')
-        .map(tag => tag.trim())
-        .filter(tag => tag.length > 0);
+      // Upload the image as a set of renditions, secret pins go to the private bucket
+      const image = await uploadPinImage(user.id, formData.visibility, imageFile);
+
+      // Parse tags; the database normalizes them again on write
+      const tags = parseTags(formData.tags);
 
       // Create pin record
       const { error: pinError } = await supabase
@@ -92,8 +108,15 @@ const CreatePin = () => {
           user_id: user.id,
           title: formData.title,
           description: formData.description || null,
-          image_url: publicUrl,
-          tags: tags
+          image_url: image.imageUrl,
+          image_variants: image.variants as unknown as Json,
+          width: image.width,
+          height: image.height,
+          placeholder: image.placeholder,
+          dominant_color: image.dominantColor,
+          camera_info: formData.showCameraInfo && cameraInfo ? cameraInfo as Json : null,
+          tags: tags,
+          visibility: formData.visibility
         });
 
       if (pinError) throw pinError;
@@ -146,6 +169,9 @@ const CreatePin = () => {
                   <p className="text-sm text-muted-foreground mb-4">
                     Recommended: High-quality JPG, PNG less than 10MB
                   </p>
+                  <p className="text-sm text-muted-foreground mb-4">
+                    Location and other photo metadata are removed before upload
+                  </p>
                   <Button asChild>
                     <label htmlFor="image-upload" className="cursor-pointer">
                       Choose file
@@ -221,6 +247,43 @@ const CreatePin = () => {
                   </p>
                 </div>
 
+                <div className="space-y-2">
+                  <Label htmlFor="visibility">Visibility</Label>
+                  <Select
+                    value={formData.visibility}
+                    onValueChange={(value) => setFormData({ ...formData, visibility: value as PinVisibility })}
+                  >
+                    <SelectTrigger id="visibility">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="public">Public</SelectItem>
+                      <SelectItem value="secret">Secret</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <p className="text-sm text-muted-foreground">
+                    {formData.visibility === 'secret'
+                      ? 'Only you and collaborators on boards it is saved to can see this pin'
+                      : 'Anyone on PinIt can see this pin'}
+                  </p>
+                </div>
+
+                {cameraInfo && (
+                  <div className="flex items-center justify-between gap-4">
+                    <div className="space-y-1">
+                      <Label htmlFor="camera-info">Show camera details</Label>
+                      <p className="text-sm text-muted-foreground">
+                        {formatCameraInfo(cameraInfo)}
+                      </p>
+                    </div>
+                    <Switch
+                      id="camera-info"
+                      checked={formData.showCameraInfo}
+                      onCheckedChange={(checked) => setFormData({ ...formData, showCameraInfo: checked })}
+                    />
+                  </div>
+                )}
+
                 <div className="flex gap-4 pt-4">
                   <Button
                     type="button"
@@ -0,0 +1,234 @@
+import { useEffect, useRef, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useAuth } from '@/contexts/AuthContext';
+import Navbar from '@/components/Navbar';
+import MasonryGrid from '@/components/MasonryGrid';
+import FollowButton from '@/components/FollowButton';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { toast } from '@/hooks/use-toast';
+import { Loader2, TrendingUp } from 'lucide-react';
+import {
+  fetchActiveCreators,
+  fetchTrendingPins,
+  fetchTrendingTags,
+  type ActiveCreator,
+  type ExplorePage,
+  type TrendingTag,
+  type TrendingWindow
+} from '@/lib/explore';
+import { toggleInSet } from '@/lib/pins';
+import { tagPath } from '@/lib/tags';
+import type { Pin } from '@/types/pin';
+
+const Explore = () => {
+  const { user } = useAuth();
+  const userId = user?.id;
+  const [pins, setPins] = useState<Pin[]>([]);
+  const [likedPins, setLikedPins] = useState<Set<string>>(new Set());
+  const [savedPins, setSavedPins] = useState<Set<string>>(new Set());
+  const [loading, setLoading] = useState(true);
+  const [hasMore, setHasMore] = useState(false);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [loadMoreError, setLoadMoreError] = useState(false);
+  const [tagWindow, setTagWindow] = useState<TrendingWindow>('24h');
+  const [trendingTags, setTrendingTags] = useState<TrendingTag[]>([]);
+  const [creators, setCreators] = useState<ActiveCreator[]>([]);
+  // Guards against overlapping page loads and stale responses after a reload
+  const requestRef = useRef(0);
+  const loadingMoreRef = useRef(false);
+
+  const mergePage = (page: ExplorePage) => {
+    setLikedPins(prev => new Set([...prev, ...page.liked]));
+    setSavedPins(prev => new Set([...prev, ...page.saved]));
+    setHasMore(page.hasMore);
+  };
+
+  useEffect(() => {
+    const request = ++requestRef.current;
+
+    const loadTrendingPins = async () => {
+      setLoading(true);
+      setLoadMoreError(false);
+
+      try {
+        const page = await fetchTrendingPins();
+        if (request !== requestRef.current) return;
+
+        setPins(page.pins);
+        mergePage(page);
+      } catch (error) {
+        toast({
+          title: "Error",
+          description: "Failed to load trending pins",
+          variant: "destructive"
+        });
+      } finally {
+        if (request === requestRef.current) {
+          setLoading(false);
+        }
+      }
+    };
+
+    loadTrendingPins();
+  }, [userId]);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    fetchTrendingTags(tagWindow)
+      .then(tags => {
+        if (!cancelled) setTrendingTags(tags);
+      })
+      .catch(error => console.error('Error loading trending tags:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [tagWindow]);
+
+  useEffect(() => {
+    fetchActiveCreators()
+      .then(setCreators)
+      .catch(error => console.error('Error loading active creators:', error));
+  }, []);
+
+  const loadNextPage = async () => {
+    if (!hasMore || loadingMoreRef.current) return;
+
+    const request = requestRef.current;
+    loadingMoreRef.current = true;
+    setLoadingMore(true);
+    setLoadMoreError(false);
+
+    try {
+      const page = await fetchTrendingPins(pins.length);
+      if (request !== requestRef.current) return;
+
+      // Scores may have been refreshed in between, which can repeat a pin
+      setPins(prev => {
+        const seen = new Set(prev.map(pin => pin.id));
+        return [...prev, ...page.pins.filter(pin => !seen.has(pin.id))];
+      });
+      mergePage(page);
+    } catch (error) {
+      if (request === requestRef.current) {
+        setLoadMoreError(true);
+      }
+    } finally {
+      loadingMoreRef.current = false;
+      setLoadingMore(false);
+    }
+  };
+
+  const handleLike = (pinId: string, liked: boolean) => {
+    setLikedPins(prev => toggleInSet(prev, pinId, liked));
+  };
+
+  const handleSave = (pinId: string, saved: boolean) => {
+    setSavedPins(prev => toggleInSet(prev, pinId, saved));
+  };
+
+  const handleDelete = (pinId: string) => {
+    setPins(prev => prev.filter(pin => pin.id !== pinId));
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Navbar />
+
+      <main className="max-w-7xl mx-auto">
+        <section className="px-4 pt-6">
+          <div className="flex items-center justify-between gap-4 mb-3">
+            <h2 className="text-xl font-semibold text-foreground">Trending topics</h2>
+            <Tabs value={tagWindow} onValueChange={(value) => setTagWindow(value as TrendingWindow)}>
+              <TabsList>
+                <TabsTrigger value="24h">Today</TabsTrigger>
+                <TabsTrigger value="7d">This week</TabsTrigger>
+              </TabsList>
+            </Tabs>
+          </div>
+
+          {trendingTags.length === 0 ? (
+            <p className="text-sm text-muted-foreground">Nothing is trending yet</p>
+          ) : (
+            <div className="flex flex-wrap gap-2">
+              {trendingTags.map(tag => (
+                <Link
+                  key={tag.tag_id}
+                  to={tagPath(tag.slug)}
+                  className="inline-flex items-center gap-1.5 px-3 py-1.5 bg-muted rounded-full text-sm text-muted-foreground hover:bg-muted/70 hover:text-foreground transition-colors"
+                >
+                  #{tag.name}
+                  <span className="text-xs">{tag.pin_count}</span>
+                </Link>
+              ))}
+            </div>
+          )}
+        </section>
+
+        {creators.length > 0 && (
+          <section className="px-4 pt-8">
+            <h2 className="text-xl font-semibold text-foreground mb-3">New creators</h2>
+            <div className="flex gap-4 overflow-x-auto pb-2">
+              {creators.map(creator => (
+                <div
+                  key={creator.user_id}
+                  className="flex flex-col items-center text-center shrink-0 w-36 p-4 rounded-lg bg-muted/50"
+                >
+                  <Link to={`/u/${creator.username}`} className="flex flex-col items-center hover:opacity-80 transition-opacity">
+                    <Avatar className="w-16 h-16 mb-2">
+                      <AvatarImage src={creator.avatar_url || undefined} />
+                      <AvatarFallback className="text-lg">
+                        {(creator.display_name || creator.username || 'U').charAt(0).toUpperCase()}
+                      </AvatarFallback>
+                    </Avatar>
+                    <span className="text-sm font-medium text-foreground truncate max-w-full">
+                      {creator.display_name || creator.username}
+                    </span>
+                  </Link>
+                  <span className="text-xs text-muted-foreground mb-3">
+                    {creator.recent_pin_count} {creator.recent_pin_count === 1 ? 'pin' : 'pins'} this week
+                  </span>
+                  {creator.user_id && <FollowButton userId={creator.user_id} size="sm" />}
+                </div>
+              ))}
+            </div>
+          </section>
+        )}
+
+        <section className="pt-8">
+          <h2 className="flex items-center gap-2 text-xl font-semibold text-foreground px-4">
+            <TrendingUp className="w-5 h-5" />
+            Trending pins
+          </h2>
+
+          {loading ? (
+            <div className="flex items-center justify-center h-96">
+              <Loader2 className="w-8 h-8 animate-spin text-muted-foreground" />
+            </div>
+          ) : pins.length === 0 ? (
+            <div className="text-center py-16">
+              <p className="text-muted-foreground">No trending pins right now. Check back soon!</p>
+            </div>
+          ) : (
+            <MasonryGrid
+              pins={pins}
+              likedPins={likedPins}
+              savedPins={savedPins}
+              onLike={handleLike}
+              onSave={handleSave}
+              onDelete={handleDelete}
+              hasMore={hasMore}
+              loadingMore={loadingMore}
+              loadMoreError={loadMoreError}
+              onLoadMore={loadNextPage}
+            />
+          )}
+        </section>
+      </main>
+    </div>
+  );
+};
+
+export default Explore;
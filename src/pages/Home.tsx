@@ -1,121 +1,188 @@
-import React, { useEffect, useState } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
+import { useSearchParams } from 'react-router-dom';
 import { useAuth } from '@/contexts/AuthContext';
 import { supabase } from '@/integrations/supabase/client';
 import Navbar from '@/components/Navbar';
 import MasonryGrid from '@/components/MasonryGrid';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { toast } from '@/hooks/use-toast';
+import { useFeedRealtime } from '@/hooks/use-feed-realtime';
 import { Loader2 } from 'lucide-react';
+import { fromFeedRows, viewerInteractions } from '@/lib/pins';
+import { fetchFeedPage, type FeedCursor, type FeedInterests } from '@/lib/feed';
+import { fetchFollowingIds } from '@/lib/follows';
+import { fetchFollowedTags } from '@/lib/interests';
+import type { Pin } from '@/types/pin';
 
-interface Pin {
-  id: string;
-  title: string;
-  description?: string;
-  image_url: string;
-  tags?: string[];
-  user_id: string;
-  created_at: string;
-  profiles?: {
-    username: string;
-    display_name?: string;
-    avatar_url?: string;
-  };
-}
+type Feed = 'all' | 'following' | 'for-you';
+
+const FEEDS: Feed[] = ['all', 'following', 'for-you'];
 
 const Home = () => {
   const { user } = useAuth();
+  const userId = user?.id;
+  const [searchParams] = useSearchParams();
   const [pins, setPins] = useState<Pin[]>([]);
-  const [filteredPins, setFilteredPins] = useState<Pin[]>([]);
   const [likedPins, setLikedPins] = useState<Set<string>>(new Set());
   const [savedPins, setSavedPins] = useState<Set<string>>(new Set());
   const [loading, setLoading] = useState(true);
-  const [searchQuery, setSearchQuery] = useState('');
+  // Onboarding lands on ?feed=for-you
+  const [feed, setFeed] = useState<Feed>(() => {
+    const requested = searchParams.get('feed') as Feed;
+    return FEEDS.includes(requested) ? requested : 'all';
+  });
+  const [newPinIds, setNewPinIds] = useState<string[]>([]);
+  const [cursor, setCursor] = useState<FeedCursor | null>(null);
+  const [authorIds, setAuthorIds] = useState<string[] | undefined>();
+  const [interests, setInterests] = useState<FeedInterests | undefined>();
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [loadMoreError, setLoadMoreError] = useState(false);
+  // Guards against overlapping page loads and stale responses after a feed switch
+  const feedRequestRef = useRef(0);
+  const loadingMoreRef = useRef(false);
+  const followingRef = useRef<Set<string>>(new Set());
+  const followedTagsRef = useRef<Set<string>>(new Set());
 
   useEffect(() => {
-    fetchPins();
-    if (user) {
-      fetchUserInteractions();
-    }
-  }, [user]);
+    const loadFirstPage = async () => {
+      const request = ++feedRequestRef.current;
+      setLoading(true);
+      setNewPinIds([]);
+      setLoadMoreError(false);
 
-  useEffect(() => {
-    // Filter pins based on search query
-    if (!searchQuery) {
-      setFilteredPins(pins);
-    } else {
-      const filtered = pins.filter(pin => 
-        pin.title.toLowerCase().includes(searchQuery.toLowerCase()) ||
-        pin.description?.toLowerCase().includes(searchQuery.toLowerCase()) ||
-        pin.tags?.some(tag => tag.toLowerCase().includes(searchQuery.toLowerCase())) ||
-        pin.profiles?.username?.toLowerCase().includes(searchQuery.toLowerCase()) ||
-        pin.profiles?.display_name?.toLowerCase().includes(searchQuery.toLowerCase())
-      );
-      setFilteredPins(filtered);
+      try {
+        // The following feed is limited to followed authors, the for you feed
+        // blends them with followed tags
+        let authorIds: string[] | undefined;
+        let interests: FeedInterests | undefined;
+        if (feed === 'following') {
+          if (!userId) return;
+          authorIds = await fetchFollowingIds(userId);
+          followingRef.current = new Set(authorIds);
+        } else if (feed === 'for-you') {
+          if (!userId) return;
+          const [followingIds, followedTags] = await Promise.all([
+            fetchFollowingIds(userId),
+            fetchFollowedTags(userId)
+          ]);
+          interests = { authorIds: followingIds, tags: followedTags.map(tag => tag.slug) };
+          followingRef.current = new Set(interests.authorIds);
+          followedTagsRef.current = new Set(interests.tags);
+        }
+
+        const page = await fetchFeedPage({ authorIds, interests });
+        if (request !== feedRequestRef.current) return;
+
+        setPins(page.pins);
+        setCursor(page.nextCursor);
+        setAuthorIds(authorIds);
+        setInterests(interests);
+        setLikedPins(prev => new Set([...prev, ...page.liked]));
+        setSavedPins(prev => new Set([...prev, ...page.saved]));
+      } catch (error) {
+        toast({
+          title: "Error",
+          description: "Failed to load pins",
+          variant: "destructive"
+        });
+      } finally {
+        if (request === feedRequestRef.current) {
+          setLoading(false);
+        }
+      }
+    };
+
+    loadFirstPage();
+  }, [feed, userId]);
+
+  useFeedRealtime({
+    onPinInserted: (pin) => {
+      if (feed === 'following' && !followingRef.current.has(pin.user_id)) return;
+      if (
+        feed === 'for-you' &&
+        !followingRef.current.has(pin.user_id) &&
+        !(pin.tags || []).some(tag => followedTagsRef.current.has(tag))
+      ) return;
+      if (pins.some(p => p.id === pin.id)) return;
+      setNewPinIds(prev => prev.includes(pin.id) ? prev : [pin.id, ...prev]);
+    },
+    onPinDeleted: (pinId) => {
+      setPins(prev => prev.filter(pin => pin.id !== pinId));
+      setNewPinIds(prev => prev.filter(id => id !== pinId));
+    },
+    onPinUpdated: (updated) => {
+      setPins(prev => prev.map(pin => (
+        pin.id === updated.id
+          ? {
+              ...pin,
+              title: updated.title,
+              description: updated.description,
+              tags: updated.tags,
+              like_count: updated.like_count,
+              save_count: updated.save_count,
+              comment_count: updated.comment_count
+            }
+          : pin
+      )));
     }
-  }, [pins, searchQuery]);
+  }, !!user);
+
+  // Adds the viewer's likes and saves for a freshly loaded batch of pins
+  const mergeInteractions = ({ liked, saved }: { liked: Set<string>; saved: Set<string> }) => {
+    setLikedPins(prev => new Set([...prev, ...liked]));
+    setSavedPins(prev => new Set([...prev, ...saved]));
+  };
+
+  const loadNextPage = async () => {
+    if (!cursor || loadingMoreRef.current) return;
+
+    const request = feedRequestRef.current;
+    loadingMoreRef.current = true;
+    setLoadingMore(true);
+    setLoadMoreError(false);
 
-  const fetchPins = async () => {
     try {
-      // First fetch pins
-      const { data: pinsData, error: pinsError } = await supabase
-        .from('pins')
-        .select('*')
-        .order('created_at', { ascending: false });
+      const page = await fetchFeedPage({ cursor, authorIds, interests });
+      if (request !== feedRequestRef.current) return;
 
-      if (pinsError) throw pinsError;
-
-      // Then fetch profiles for each pin
-      const pinsWithProfiles = await Promise.all(
-        (pinsData || []).map(async (pin) => {
-          const { data: profile } = await supabase
-            .from('profiles')
-            .select('username, display_name, avatar_url')
-            .eq('user_id', pin.user_id)
-            .maybeSingle();
-
-          return {
-            ...pin,
-            profiles: profile
-          };
-        })
-      );
-
-      setPins(pinsWithProfiles);
-    } catch (error) {
-      toast({
-        title: "Error",
-        description: "Failed to load pins",
-        variant: "destructive"
+      // Skip pins that were already shown through the new pins banner
+      setPins(prev => {
+        const seen = new Set(prev.map(pin => pin.id));
+        return [...prev, ...page.pins.filter(pin => !seen.has(pin.id))];
       });
+      setCursor(page.nextCursor);
+      mergeInteractions(page);
+    } catch (error) {
+      if (request === feedRequestRef.current) {
+        setLoadMoreError(true);
+      }
     } finally {
-      setLoading(false);
+      loadingMoreRef.current = false;
+      setLoadingMore(false);
     }
   };
 
-  const fetchUserInteractions = async () => {
-    if (!user) return;
-
+  const showNewPins = async () => {
     try {
-      // Fetch liked pins
-      const { data: likes } = await supabase
-        .from('likes')
-        .select('pin_id')
-        .eq('user_id', user.id);
-
-      if (likes) {
-        setLikedPins(new Set(likes.map(like => like.pin_id)));
-      }
+      const { data, error } = await supabase
+        .from('feed_pins')
+        .select('*')
+        .in('id', newPinIds)
+        .order('created_at', { ascending: false });
 
-      // Fetch saved pins
-      const { data: saves } = await supabase
-        .from('saves')
-        .select('pin_id')
-        .eq('user_id', user.id);
+      if (error) throw error;
 
-      if (saves) {
-        setSavedPins(new Set(saves.map(save => save.pin_id)));
-      }
+      const fresh = await fromFeedRows(data || []);
+      setPins(prev => [...fresh, ...prev.filter(pin => !newPinIds.includes(pin.id))]);
+      setNewPinIds([]);
+      mergeInteractions(viewerInteractions(data || []));
+      window.scrollTo({ top: 0, behavior: 'smooth' });
     } catch (error) {
-      console.error('Error fetching user interactions:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load new pins",
+        variant: "destructive"
+      });
     }
   };
 
@@ -147,46 +214,51 @@ const Home = () => {
     setPins(prev => prev.filter(pin => pin.id !== pinId));
   };
 
-  const handleSearch = (query: string) => {
-    setSearchQuery(query);
-  };
-
-  if (loading) {
-    return (
-      <div className="min-h-screen bg-background">
-        <Navbar onSearch={handleSearch} searchQuery={searchQuery} />
-        <div className="flex items-center justify-center h-96">
-          <Loader2 className="w-8 h-8 animate-spin text-muted-foreground" />
-        </div>
-      </div>
-    );
-  }
-
   return (
     <div className="min-h-screen bg-background">
-      <Navbar onSearch={handleSearch} searchQuery={searchQuery} />
+      <Navbar />
       
       <main className="max-w-7xl mx-auto">
-        {filteredPins.length === 0 ? (
+        {user && (
+          <Tabs value={feed} onValueChange={(value) => setFeed(value as Feed)} className="flex justify-center pt-4">
+            <TabsList>
+              <TabsTrigger value="all">All</TabsTrigger>
+              <TabsTrigger value="following">Following</TabsTrigger>
+              <TabsTrigger value="for-you">For you</TabsTrigger>
+            </TabsList>
+          </Tabs>
+        )}
+
+        {loading ? (
+          <div className="flex items-center justify-center h-96">
+            <Loader2 className="w-8 h-8 animate-spin text-muted-foreground" />
+          </div>
+        ) : pins.length === 0 ? (
           <div className="text-center py-16">
-            <h2 className="text-2xl font-semibold text-foreground mb-4">
-              {searchQuery ? 'No pins found' : 'No pins yet'}
-            </h2>
+            <h2 className="text-2xl font-semibold text-foreground mb-4">No pins yet</h2>
             <p className="text-muted-foreground">
-              {searchQuery 
-                ? 'Try adjusting your search terms' 
-                : 'Be the first to share something beautiful!'
+              {feed === 'following'
+                ? 'Follow people to see their pins here'
+                : feed === 'for-you'
+                  ? 'Follow people or pick interests in Settings to see their pins here'
+                  : 'Be the first to share something beautiful!'
               }
             </p>
           </div>
         ) : (
           <MasonryGrid
-            pins={filteredPins}
+            pins={pins}
             likedPins={likedPins}
             savedPins={savedPins}
             onLike={handleLike}
             onSave={handleSave}
             onDelete={handleDelete}
+            newPinCount={newPinIds.length}
+            onShowNewPins={showNewPins}
+            hasMore={!!cursor}
+            loadingMore={loadingMore}
+            loadMoreError={loadMoreError}
+            onLoadMore={loadNextPage}
           />
         )}
       </main>
@@ -0,0 +1,338 @@
+import React, { useEffect, useState } from 'react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import { format } from 'date-fns';
+import { useAuth } from '@/contexts/AuthContext';
+import { supabase } from '@/integrations/supabase/client';
+import Navbar from '@/components/Navbar';
+import MasonryGrid from '@/components/MasonryGrid';
+import SaveToBoardDialog from '@/components/SaveToBoardDialog';
+import PinComments from '@/components/PinComments';
+import FollowButton from '@/components/FollowButton';
+import { Button } from '@/components/ui/button';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { usePinActions } from '@/hooks/use-pin-actions';
+import { tagPath } from '@/lib/tags';
+import { imageSrcSet } from '@/lib/images';
+import { formatCameraInfo } from '@/lib/exif';
+import { fromFeedRows, toggleInSet, viewerInteractions, type FeedRow } from '@/lib/pins';
+import { toast } from '@/hooks/use-toast';
+import { ArrowLeft, Bookmark, Camera, Download, Heart, Link2, Loader2, Lock, Trash2 } from 'lucide-react';
+import type { Pin } from '@/types/pin';
+
+const RELATED_LIMIT = 30;
+
+// The image fills the left half of the card on large screens
+const DETAIL_IMAGE_SIZES = '(min-width: 1024px) 50vw, 100vw';
+
+// Pins sharing a tag come first, topped up with the latest pins
+const fetchRelatedPins = async (source: FeedRow) => {
+  let related: FeedRow[] = [];
+
+  if (source.tags && source.tags.length > 0) {
+    const { data, error } = await supabase
+      .from('feed_pins')
+      .select('*')
+      .overlaps('tags', source.tags)
+      .neq('id', source.id)
+      .order('created_at', { ascending: false })
+      .limit(RELATED_LIMIT);
+
+    if (error) throw error;
+    related = data || [];
+  }
+
+  if (related.length < RELATED_LIMIT) {
+    const { data, error } = await supabase
+      .from('feed_pins')
+      .select('*')
+      .neq('id', source.id)
+      .order('created_at', { ascending: false })
+      .limit(RELATED_LIMIT);
+
+    if (error) throw error;
+    const seen = new Set(related.map(p => p.id));
+    related = [...related, ...(data || []).filter(p => !seen.has(p.id))].slice(0, RELATED_LIMIT);
+  }
+
+  return related;
+};
+
+const PinDetail = () => {
+  const { id } = useParams<{ id: string }>();
+  const { user } = useAuth();
+  const userId = user?.id;
+  const navigate = useNavigate();
+  const [pin, setPin] = useState<Pin | null>(null);
+  const [relatedPins, setRelatedPins] = useState<Pin[]>([]);
+  const [likedPins, setLikedPins] = useState<Set<string>>(new Set());
+  const [savedPins, setSavedPins] = useState<Set<string>>(new Set());
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (!id) return;
+
+    const fetchPin = async () => {
+      setLoading(true);
+      window.scrollTo(0, 0);
+
+      try {
+        const { data: pinData, error: pinError } = await supabase
+          .from('feed_pins')
+          .select('*')
+          .eq('id', id)
+          .maybeSingle();
+
+        if (pinError) throw pinError;
+        if (!pinData) {
+          setPin(null);
+          return;
+        }
+
+        const related = await fetchRelatedPins(pinData);
+        const rows = [pinData, ...related];
+        const [current, ...others] = await fromFeedRows(rows);
+        const { liked, saved } = viewerInteractions(rows);
+
+        setPin(current);
+        setRelatedPins(others);
+        setLikedPins(liked);
+        setSavedPins(saved);
+      } catch (error) {
+        toast({
+          title: "Error",
+          description: "Failed to load pin",
+          variant: "destructive"
+        });
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchPin();
+  }, [id, userId]);
+
+  const handleLike = (pinId: string, liked: boolean) => {
+    setLikedPins(prev => toggleInSet(prev, pinId, liked));
+  };
+
+  const handleSave = (pinId: string, saved: boolean) => {
+    setSavedPins(prev => toggleInSet(prev, pinId, saved));
+  };
+
+  const handleDelete = (pinId: string) => {
+    if (pinId === pin?.id) {
+      navigate('/');
+    } else {
+      setRelatedPins(prev => prev.filter(p => p.id !== pinId));
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-background">
+        <Navbar />
+        <div className="flex items-center justify-center h-96">
+          <Loader2 className="w-8 h-8 animate-spin text-muted-foreground" />
+        </div>
+      </div>
+    );
+  }
+
+  if (!pin) {
+    return (
+      <div className="min-h-screen bg-background">
+        <Navbar />
+        <div className="text-center py-16">
+          <h2 className="text-2xl font-semibold text-foreground mb-4">Pin not found</h2>
+          <p className="text-muted-foreground mb-6">
+            This pin may have been deleted or the link is incorrect.
+          </p>
+          <Button onClick={() => navigate('/')}>Back to home</Button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Navbar />
+
+      <main className="max-w-7xl mx-auto">
+        <div className="px-4 pt-6">
+          <Button variant="ghost" onClick={() => navigate(-1)}>
+            <ArrowLeft className="w-4 h-4 mr-2" />
+            Back
+          </Button>
+        </div>
+
+        <PinDetailCard
+          key={pin.id}
+          pin={pin}
+          liked={likedPins.has(pin.id)}
+          saved={savedPins.has(pin.id)}
+          onLike={handleLike}
+          onSave={handleSave}
+          onDelete={handleDelete}
+        />
+
+        {relatedPins.length > 0 && (
+          <section className="mt-12">
+            <h2 className="text-xl font-semibold text-foreground text-center">More like this</h2>
+            <MasonryGrid
+              pins={relatedPins}
+              likedPins={likedPins}
+              savedPins={savedPins}
+              onLike={handleLike}
+              onSave={handleSave}
+              onDelete={handleDelete}
+            />
+          </section>
+        )}
+      </main>
+    </div>
+  );
+};
+
+interface PinDetailCardProps {
+  pin: Pin;
+  liked: boolean;
+  saved: boolean;
+  onLike: (pinId: string, liked: boolean) => void;
+  onSave: (pinId: string, saved: boolean) => void;
+  onDelete: (pinId: string) => void;
+}
+
+const PinDetailCard: React.FC<PinDetailCardProps> = ({ pin, liked, saved, onLike, onSave, onDelete }) => {
+  const {
+    isOwner,
+    isLiked,
+    isSaved,
+    likeCount,
+    saveDialogOpen,
+    setSaveDialogOpen,
+    handleLike,
+    handleSave,
+    handleSavedChange,
+    handleDelete,
+    handleDownload,
+    handleCopyLink,
+  } = usePinActions(pin, { liked, saved, onLike, onSave, onDelete });
+
+  return (
+    <div className="mx-4 mt-4 bg-card rounded-2xl shadow-card overflow-hidden grid grid-cols-1 lg:grid-cols-2">
+      <div className="bg-muted flex items-center justify-center">
+        <img
+          src={pin.image_url}
+          srcSet={imageSrcSet(pin.image_variants)}
+          sizes={DETAIL_IMAGE_SIZES}
+          alt={pin.title}
+          width={pin.width ?? undefined}
+          height={pin.height ?? undefined}
+          className="w-full h-auto max-h-[80vh] object-contain"
+        />
+      </div>
+
+      <div className="p-8 flex flex-col">
+        <div className="flex flex-wrap items-center gap-2 mb-6">
+          <Button variant="secondary" size="sm" onClick={handleLike}>
+            <Heart className={`w-4 h-4 mr-2 ${isLiked ? 'fill-current text-primary' : ''}`} />
+            {isLiked ? 'Liked' : 'Like'}
+          </Button>
+          <Button variant="secondary" size="sm" onClick={handleDownload}>
+            <Download className="w-4 h-4 mr-2" />
+            Download
+          </Button>
+          <Button variant="secondary" size="sm" onClick={handleCopyLink}>
+            <Link2 className="w-4 h-4 mr-2" />
+            Copy link
+          </Button>
+          {isOwner && (
+            <Button variant="ghost" size="sm" className="text-destructive" onClick={handleDelete}>
+              <Trash2 className="w-4 h-4 mr-2" />
+              Delete
+            </Button>
+          )}
+          <Button size="sm" className="ml-auto" onClick={handleSave}>
+            <Bookmark className={`w-4 h-4 mr-2 ${isSaved ? 'fill-current' : ''}`} />
+            {isSaved ? 'Saved' : 'Save'}
+          </Button>
+        </div>
+
+        {pin.visibility === 'secret' && (
+          <p className="flex items-center text-sm text-muted-foreground mb-2">
+            <Lock className="w-4 h-4 mr-1" />
+            Secret pin
+          </p>
+        )}
+        <h1 className="text-3xl font-bold text-foreground mb-2 break-words">{pin.title}</h1>
+        <p className="text-sm text-muted-foreground mb-4">
+          {likeCount} {likeCount === 1 ? 'like' : 'likes'}
+          {' · '}
+          {pin.save_count ?? 0} {pin.save_count === 1 ? 'save' : 'saves'}
+          {' · '}
+          {pin.comment_count ?? 0} {pin.comment_count === 1 ? 'comment' : 'comments'}
+        </p>
+
+        {pin.description && (
+          <p className="text-foreground whitespace-pre-line mb-6">{pin.description}</p>
+        )}
+
+        {pin.tags && pin.tags.length > 0 && (
+          <div className="flex flex-wrap gap-2 mb-6">
+            {pin.tags.map((tag, index) => (
+              <Link
+                key={index}
+                to={tagPath(tag)}
+                className="inline-block px-3 py-1 bg-muted rounded-full text-sm text-muted-foreground hover:bg-muted/70 hover:text-foreground transition-colors"
+              >
+                #{tag}
+              </Link>
+            ))}
+          </div>
+        )}
+
+        {pin.camera_info && (
+          <p className="flex items-center gap-2 text-sm text-muted-foreground mb-6">
+            <Camera className="w-4 h-4 shrink-0" />
+            {formatCameraInfo(pin.camera_info)}
+          </p>
+        )}
+
+        <div className="mt-auto flex items-center justify-between gap-4">
+          <Link
+            to={pin.profiles?.username ? `/u/${pin.profiles.username}` : '#'}
+            className="flex items-center min-w-0 hover:opacity-80 transition-opacity"
+          >
+            <Avatar className="h-10 w-10 mr-3">
+              <AvatarImage src={pin.profiles?.avatar_url} />
+              <AvatarFallback>
+                {pin.profiles?.username?.charAt(0).toUpperCase() || 'U'}
+              </AvatarFallback>
+            </Avatar>
+            <div className="min-w-0">
+              <p className="font-medium text-foreground truncate">
+                {pin.profiles?.display_name || pin.profiles?.username || 'Unknown User'}
+              </p>
+              <p className="text-xs text-muted-foreground">
+                Pinned {format(new Date(pin.created_at), 'MMM d, yyyy')}
+              </p>
+            </div>
+          </Link>
+
+          <FollowButton userId={pin.user_id} size="sm" />
+        </div>
+
+        <PinComments pin={pin} />
+      </div>
+
+      <SaveToBoardDialog
+        pin={pin}
+        open={saveDialogOpen}
+        onOpenChange={setSaveDialogOpen}
+        onSavedChange={handleSavedChange}
+      />
+    </div>
+  );
+};
+
+export default PinDetail;
@@ -0,0 +1,230 @@
+import { useEffect, useState } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { useAuth, type Profile as ProfileRow } from '@/contexts/AuthContext';
+import { supabase } from '@/integrations/supabase/client';
+import Navbar from '@/components/Navbar';
+import MasonryGrid from '@/components/MasonryGrid';
+import { Button } from '@/components/ui/button';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import BoardCard from '@/components/BoardCard';
+import BoardFormDialog from '@/components/BoardFormDialog';
+import FollowButton from '@/components/FollowButton';
+import { fromFeedRows, toggleInSet, viewerInteractions } from '@/lib/pins';
+import { boardPath, fetchBoardSummaries, type BoardSummary } from '@/lib/boards';
+import { fetchFollowCounts, type FollowCounts } from '@/lib/follows';
+import { toast } from '@/hooks/use-toast';
+import { Loader2, Plus } from 'lucide-react';
+import type { Pin } from '@/types/pin';
+
+const Profile = () => {
+  const { username } = useParams<{ username: string }>();
+  const { user } = useAuth();
+  const userId = user?.id;
+  const navigate = useNavigate();
+  const [profile, setProfile] = useState<ProfileRow | null>(null);
+  const [createdPins, setCreatedPins] = useState<Pin[]>([]);
+  const [boards, setBoards] = useState<BoardSummary[]>([]);
+  const [pinCount, setPinCount] = useState(0);
+  const [followCounts, setFollowCounts] = useState<FollowCounts>({ followers: 0, following: 0 });
+  const [likedPins, setLikedPins] = useState<Set<string>>(new Set());
+  const [savedPins, setSavedPins] = useState<Set<string>>(new Set());
+  const [loading, setLoading] = useState(true);
+  const [createBoardOpen, setCreateBoardOpen] = useState(false);
+
+  const isOwner = !!profile && profile.user_id === userId;
+
+  useEffect(() => {
+    if (!username) return;
+
+    const fetchProfile = async () => {
+      setLoading(true);
+
+      try {
+        const { data: profileData, error: profileError } = await supabase
+          .from('profiles')
+          .select('*')
+          .eq('username', username)
+          .maybeSingle();
+
+        if (profileError) throw profileError;
+        setProfile(profileData);
+        if (!profileData) return;
+
+        const { data: pinsData, count, error: pinsError } = await supabase
+          .from('feed_pins')
+          .select('*', { count: 'exact' })
+          .eq('user_id', profileData.user_id)
+          .order('created_at', { ascending: false });
+
+        if (pinsError) throw pinsError;
+
+        const created = await fromFeedRows(pinsData || []);
+        const { liked, saved } = viewerInteractions(pinsData || []);
+        setCreatedPins(created);
+        setLikedPins(liked);
+        setSavedPins(saved);
+        setPinCount(count ?? created.length);
+
+        const [boardSummaries, counts] = await Promise.all([
+          fetchBoardSummaries(profileData.user_id),
+          fetchFollowCounts(profileData.user_id)
+        ]);
+        setBoards(boardSummaries);
+        setFollowCounts(counts);
+      } catch (error) {
+        toast({
+          title: "Error",
+          description: "Failed to load profile",
+          variant: "destructive"
+        });
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchProfile();
+  }, [username, userId]);
+
+  const handleLike = (pinId: string, liked: boolean) => {
+    setLikedPins(prev => toggleInSet(prev, pinId, liked));
+  };
+
+  const handleSave = (pinId: string, saved: boolean) => {
+    setSavedPins(prev => toggleInSet(prev, pinId, saved));
+  };
+
+  const handleDelete = (pinId: string) => {
+    setCreatedPins(prev => prev.filter(pin => pin.id !== pinId));
+    setPinCount(prev => Math.max(0, prev - 1));
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-background">
+        <Navbar />
+        <div className="flex items-center justify-center h-96">
+          <Loader2 className="w-8 h-8 animate-spin text-muted-foreground" />
+        </div>
+      </div>
+    );
+  }
+
+  if (!profile) {
+    return (
+      <div className="min-h-screen bg-background">
+        <Navbar />
+        <div className="text-center py-16">
+          <h2 className="text-2xl font-semibold text-foreground mb-4">User not found</h2>
+          <p className="text-muted-foreground mb-6">
+            There is nobody called @{username} on PinIt.
+          </p>
+          <Button onClick={() => navigate('/')}>Back to home</Button>
+        </div>
+      </div>
+    );
+  }
+
+  const renderPins = (pins: Pin[], emptyMessage: string) => (
+    pins.length === 0 ? (
+      <p className="text-center text-muted-foreground py-16">{emptyMessage}</p>
+    ) : (
+      <MasonryGrid
+        pins={pins}
+        likedPins={likedPins}
+        savedPins={savedPins}
+        onLike={handleLike}
+        onSave={handleSave}
+        onDelete={handleDelete}
+      />
+    )
+  );
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Navbar />
+
+      <main className="max-w-7xl mx-auto">
+        <header className="flex flex-col items-center text-center px-4 pt-10 pb-6">
+          <Avatar className="h-28 w-28 mb-4">
+            <AvatarImage src={profile.avatar_url} />
+            <AvatarFallback className="text-4xl">
+              {profile.username.charAt(0).toUpperCase()}
+            </AvatarFallback>
+          </Avatar>
+          <h1 className="text-3xl font-bold text-foreground">
+            {profile.display_name || profile.username}
+          </h1>
+          <p className="text-muted-foreground">@{profile.username}</p>
+          {profile.bio && (
+            <p className="text-foreground max-w-xl mt-4 whitespace-pre-line">{profile.bio}</p>
+          )}
+          <p className="text-sm text-muted-foreground mt-4">
+            {pinCount} {pinCount === 1 ? 'pin' : 'pins'}
+            {' · '}
+            {followCounts.followers} {followCounts.followers === 1 ? 'follower' : 'followers'}
+            {' · '}
+            {followCounts.following} following
+          </p>
+          {isOwner ? (
+            <Button variant="secondary" className="mt-4" onClick={() => navigate('/settings')}>
+              Edit profile
+            </Button>
+          ) : (
+            <FollowButton
+              userId={profile.user_id}
+              className="mt-4"
+              onFollowChange={(following) => setFollowCounts(prev => ({
+                ...prev,
+                followers: prev.followers + (following ? 1 : -1)
+              }))}
+            />
+          )}
+        </header>
+
+        <Tabs defaultValue="created" className="w-full">
+          <div className="flex justify-center">
+            <TabsList>
+              <TabsTrigger value="created">Created</TabsTrigger>
+              <TabsTrigger value="saved">Saved</TabsTrigger>
+            </TabsList>
+          </div>
+
+          <TabsContent value="created">
+            {renderPins(createdPins, isOwner ? "You haven't created any pins yet" : 'No pins yet')}
+          </TabsContent>
+
+          <TabsContent value="saved">
+            {isOwner && (
+              <div className="flex justify-end px-4 pt-4">
+                <Button variant="secondary" size="sm" onClick={() => setCreateBoardOpen(true)}>
+                  <Plus className="w-4 h-4 mr-2" />
+                  Create board
+                </Button>
+              </div>
+            )}
+            {boards.length === 0 ? (
+              <p className="text-center text-muted-foreground py-16">
+                {isOwner ? "You haven't saved any pins yet" : 'No boards yet'}
+              </p>
+            ) : (
+              <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-4 xl:grid-cols-5 gap-4 px-4 py-6">
+                {boards.map((board) => (
+                  <BoardCard key={board.id} board={board} username={profile.username} />
+                ))}
+              </div>
+            )}
+          </TabsContent>
+        </Tabs>
+      </main>
+
+      <BoardFormDialog
+        open={createBoardOpen}
+        onOpenChange={setCreateBoardOpen}
+        onSaved={(board) => navigate(boardPath(profile.username, board.slug))}
+      />
+    </div>
+  );
+};
+
+export default Profile;
@@ -0,0 +1,159 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { useAuth } from '@/contexts/AuthContext';
+import Navbar from '@/components/Navbar';
+import MasonryGrid from '@/components/MasonryGrid';
+import SearchFilterChips from '@/components/SearchFilterChips';
+import { searchPins, type SearchPage } from '@/lib/search';
+import { isEmptySearchQuery, parseSearchQuery } from '@/lib/search-query';
+import { toggleInSet } from '@/lib/pins';
+import { toast } from '@/hooks/use-toast';
+import { Loader2 } from 'lucide-react';
+import type { Pin } from '@/types/pin';
+
+const Search = () => {
+  const [searchParams] = useSearchParams();
+  const query = searchParams.get('q')?.trim() ?? '';
+  const parsedQuery = useMemo(() => parseSearchQuery(query), [query]);
+  const { user } = useAuth();
+  const userId = user?.id;
+  const [pins, setPins] = useState<Pin[]>([]);
+  const [likedPins, setLikedPins] = useState<Set<string>>(new Set());
+  const [savedPins, setSavedPins] = useState<Set<string>>(new Set());
+  const [loading, setLoading] = useState(true);
+  const [hasMore, setHasMore] = useState(false);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [loadMoreError, setLoadMoreError] = useState(false);
+  // Guards against overlapping page loads and stale responses after a new query
+  const requestRef = useRef(0);
+  const loadingMoreRef = useRef(false);
+
+  const mergePage = (page: SearchPage) => {
+    setLikedPins(prev => new Set([...prev, ...page.liked]));
+    setSavedPins(prev => new Set([...prev, ...page.saved]));
+    setHasMore(page.hasMore);
+  };
+
+  useEffect(() => {
+    const request = ++requestRef.current;
+    setPins([]);
+    setHasMore(false);
+    setLoadMoreError(false);
+
+    if (isEmptySearchQuery(parsedQuery)) {
+      setLoading(false);
+      return;
+    }
+
+    const loadResults = async () => {
+      setLoading(true);
+
+      try {
+        const page = await searchPins(parsedQuery);
+        if (request !== requestRef.current) return;
+
+        setPins(page.pins);
+        mergePage(page);
+      } catch (error) {
+        toast({
+          title: "Error",
+          description: "Search failed",
+          variant: "destructive"
+        });
+      } finally {
+        if (request === requestRef.current) {
+          setLoading(false);
+        }
+      }
+    };
+
+    loadResults();
+  }, [parsedQuery, userId]);
+
+  const loadNextPage = async () => {
+    if (!hasMore || loadingMoreRef.current) return;
+
+    const request = requestRef.current;
+    loadingMoreRef.current = true;
+    setLoadingMore(true);
+    setLoadMoreError(false);
+
+    try {
+      const page = await searchPins(parsedQuery, pins.length);
+      if (request !== requestRef.current) return;
+
+      setPins(prev => {
+        const seen = new Set(prev.map(pin => pin.id));
+        return [...prev, ...page.pins.filter(pin => !seen.has(pin.id))];
+      });
+      mergePage(page);
+    } catch (error) {
+      if (request === requestRef.current) {
+        setLoadMoreError(true);
+      }
+    } finally {
+      loadingMoreRef.current = false;
+      setLoadingMore(false);
+    }
+  };
+
+  const handleLike = (pinId: string, liked: boolean) => {
+    setLikedPins(prev => toggleInSet(prev, pinId, liked));
+  };
+
+  const handleSave = (pinId: string, saved: boolean) => {
+    setSavedPins(prev => toggleInSet(prev, pinId, saved));
+  };
+
+  const handleDelete = (pinId: string) => {
+    setPins(prev => prev.filter(pin => pin.id !== pinId));
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Navbar searchQuery={query} />
+
+      <main className="max-w-7xl mx-auto">
+        <SearchFilterChips query={parsedQuery} />
+
+        {query && (
+          <h1 className="text-xl font-semibold text-foreground px-4 pt-6">
+            Results for “{query}”
+          </h1>
+        )}
+
+        {loading ? (
+          <div className="flex items-center justify-center h-96">
+            <Loader2 className="w-8 h-8 animate-spin text-muted-foreground" />
+          </div>
+        ) : pins.length === 0 ? (
+          <div className="text-center py-16">
+            <h2 className="text-2xl font-semibold text-foreground mb-4">
+              {query ? 'No pins found' : 'Search for ideas'}
+            </h2>
+            <p className="text-muted-foreground">
+              {query
+                ? 'Try different or fewer words, or remove a filter'
+                : 'Find pins by title, description, tag or creator. Narrow down with tag:, user:, before:, after: and has:'}
+            </p>
+          </div>
+        ) : (
+          <MasonryGrid
+            pins={pins}
+            likedPins={likedPins}
+            savedPins={savedPins}
+            onLike={handleLike}
+            onSave={handleSave}
+            onDelete={handleDelete}
+            hasMore={hasMore}
+            loadingMore={loadingMore}
+            loadMoreError={loadMoreError}
+            onLoadMore={loadNextPage}
+          />
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default Search;
@@ -0,0 +1,374 @@
+import React, { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useAuth } from '@/contexts/AuthContext';
+import { supabase } from '@/integrations/supabase/client';
+import Navbar from '@/components/Navbar';
+import InterestsPicker from '@/components/InterestsPicker';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { isUsernameTaken, USERNAME_HINT, USERNAME_PATTERN } from '@/lib/profile';
+import { imageExtension, prepareUpload } from '@/lib/images';
+import { toast } from '@/hooks/use-toast';
+import { ArrowLeft, Camera, Loader2 } from 'lucide-react';
+
+const MAX_AVATAR_SIZE = 5 * 1024 * 1024;
+
+const Settings = () => {
+  const { user, profile, refreshProfile } = useAuth();
+  const navigate = useNavigate();
+  const [saving, setSaving] = useState(false);
+  const [uploadingAvatar, setUploadingAvatar] = useState(false);
+  const [usernameError, setUsernameError] = useState('');
+  const [formData, setFormData] = useState({
+    display_name: '',
+    username: '',
+    bio: ''
+  });
+  const [passwordData, setPasswordData] = useState({
+    password: '',
+    confirm: ''
+  });
+  const [updatingPassword, setUpdatingPassword] = useState(false);
+
+  useEffect(() => {
+    if (profile) {
+      setFormData({
+        display_name: profile.display_name || '',
+        username: profile.username,
+        bio: profile.bio || ''
+      });
+    }
+  }, [profile]);
+
+  const validateUsername = async (username: string) => {
+    if (!USERNAME_PATTERN.test(username)) {
+      setUsernameError(`Usernames must be ${USERNAME_HINT.toLowerCase()}`);
+      return false;
+    }
+
+    if (username !== profile?.username && await isUsernameTaken(username, user?.id)) {
+      setUsernameError(`@${username} is already taken`);
+      return false;
+    }
+
+    setUsernameError('');
+    return true;
+  };
+
+  const handleAvatarUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file || !user) return;
+
+    if (file.size > MAX_AVATAR_SIZE) {
+      toast({
+        title: "File too large",
+        description: "Please choose an image smaller than 5MB",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    if (!file.type.startsWith('image/')) {
+      toast({
+        title: "Invalid file type",
+        description: "Please choose an image file",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    setUploadingAvatar(true);
+
+    try {
+      // Re-encoded like pin images, so the photo's EXIF orientation is
+      // applied and its metadata dropped; the smallest rendition is plenty
+      const processed = await prepareUpload(file);
+      const avatar = processed.renditions[0];
+      const fileName = `${user.id}/${Date.now()}.${imageExtension(processed.type)}`;
+
+      const { error: uploadError } = await supabase.storage
+        .from('avatars')
+        .upload(fileName, avatar.blob, { contentType: processed.type });
+
+      if (uploadError) throw uploadError;
+
+      const { data: { publicUrl } } = supabase.storage
+        .from('avatars')
+        .getPublicUrl(fileName);
+
+      const { error: updateError } = await supabase
+        .from('profiles')
+        .update({ avatar_url: publicUrl })
+        .eq('user_id', user.id);
+
+      if (updateError) throw updateError;
+
+      await refreshProfile();
+      toast({
+        title: "Avatar updated",
+        description: "Your new profile photo is live."
+      });
+    } catch (error) {
+      toast({
+        title: "Error uploading avatar",
+        description: error instanceof Error ? error.message : "Something went wrong",
+        variant: "destructive"
+      });
+    } finally {
+      setUploadingAvatar(false);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user) return;
+
+    setSaving(true);
+
+    try {
+      const username = formData.username.trim();
+      if (!(await validateUsername(username))) return;
+
+      const { error } = await supabase
+        .from('profiles')
+        .update({
+          username,
+          display_name: formData.display_name.trim() || null,
+          bio: formData.bio.trim() || null
+        })
+        .eq('user_id', user.id);
+
+      // Someone claimed the name between the check and the update
+      if (error?.code === '23505') {
+        setUsernameError(`@${username} is already taken`);
+        return;
+      }
+      if (error) throw error;
+
+      await refreshProfile();
+      toast({
+        title: "Profile saved",
+        description: "Your changes have been saved."
+      });
+    } catch (error) {
+      toast({
+        title: "Error saving profile",
+        description: error instanceof Error ? error.message : "Something went wrong",
+        variant: "destructive"
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handlePasswordSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (passwordData.password !== passwordData.confirm) {
+      toast({
+        title: "Passwords don't match",
+        description: "Please type the same password twice",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    setUpdatingPassword(true);
+
+    try {
+      const { error } = await supabase.auth.updateUser({ password: passwordData.password });
+      if (error) throw error;
+
+      setPasswordData({ password: '', confirm: '' });
+      toast({
+        title: "Password updated",
+        description: "Use your new password next time you sign in."
+      });
+    } catch (error) {
+      toast({
+        title: "Error updating password",
+        description: error instanceof Error ? error.message : "Something went wrong",
+        variant: "destructive"
+      });
+    } finally {
+      setUpdatingPassword(false);
+    }
+  };
+
+  if (!profile) {
+    return (
+      <div className="min-h-screen bg-background">
+        <Navbar />
+        <div className="flex items-center justify-center h-96">
+          <Loader2 className="w-8 h-8 animate-spin text-muted-foreground" />
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Navbar />
+
+      <div className="max-w-2xl mx-auto px-4 py-8">
+        <div className="flex items-center mb-8">
+          <Button
+            variant="ghost"
+            onClick={() => navigate(-1)}
+            className="mr-4"
+          >
+            <ArrowLeft className="w-4 h-4 mr-2" />
+            Back
+          </Button>
+          <h1 className="text-3xl font-bold text-foreground">Settings</h1>
+        </div>
+
+        <div className="space-y-8">
+          <Card>
+            <CardHeader>
+              <CardTitle>Public profile</CardTitle>
+              <CardDescription>People visiting your profile will see this information.</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="flex items-center gap-4 mb-6">
+                <Avatar className="h-20 w-20">
+                  <AvatarImage src={profile.avatar_url} />
+                  <AvatarFallback className="text-2xl">
+                    {profile.username.charAt(0).toUpperCase()}
+                  </AvatarFallback>
+                </Avatar>
+                <Button variant="secondary" disabled={uploadingAvatar} asChild>
+                  <label htmlFor="avatar-upload" className="cursor-pointer">
+                    {uploadingAvatar ? (
+                      <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                    ) : (
+                      <Camera className="w-4 h-4 mr-2" />
+                    )}
+                    Change photo
+                  </label>
+                </Button>
+                <input
+                  id="avatar-upload"
+                  type="file"
+                  accept="image/*"
+                  onChange={handleAvatarUpload}
+                  disabled={uploadingAvatar}
+                  className="hidden"
+                />
+              </div>
+
+              <form onSubmit={handleSubmit} className="space-y-6">
+                <div className="space-y-2">
+                  <Label htmlFor="display_name">Display name</Label>
+                  <Input
+                    id="display_name"
+                    placeholder="How should people call you?"
+                    value={formData.display_name}
+                    onChange={(e) => setFormData({ ...formData, display_name: e.target.value })}
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="username">Username</Label>
+                  <Input
+                    id="username"
+                    value={formData.username}
+                    onChange={(e) => {
+                      setFormData({ ...formData, username: e.target.value });
+                      setUsernameError('');
+                    }}
+                    onBlur={() => validateUsername(formData.username.trim()).catch(() => undefined)}
+                    aria-invalid={!!usernameError}
+                    required
+                  />
+                  <p className={`text-sm ${usernameError ? 'text-destructive' : 'text-muted-foreground'}`}>
+                    {usernameError || `pinit.app/u/${formData.username || 'username'}`}
+                  </p>
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="bio">About</Label>
+                  <Textarea
+                    id="bio"
+                    placeholder="Tell people a little about yourself"
+                    rows={4}
+                    value={formData.bio}
+                    onChange={(e) => setFormData({ ...formData, bio: e.target.value })}
+                  />
+                </div>
+
+                <div className="flex justify-end">
+                  <Button type="submit" disabled={saving || !!usernameError}>
+                    {saving ? "Saving..." : "Save"}
+                  </Button>
+                </div>
+              </form>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Manage interests</CardTitle>
+              <CardDescription>Topics you follow fill your For you feed alongside the people you follow.</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <InterestsPicker />
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Account</CardTitle>
+              <CardDescription>Manage how you sign in to PinIt.</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <form onSubmit={handlePasswordSubmit} className="space-y-6">
+                <div className="space-y-2">
+                  <Label htmlFor="email">Email</Label>
+                  <Input id="email" type="email" value={user?.email || ''} disabled />
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="new-password">New password</Label>
+                  <Input
+                    id="new-password"
+                    type="password"
+                    minLength={6}
+                    value={passwordData.password}
+                    onChange={(e) => setPasswordData({ ...passwordData, password: e.target.value })}
+                    required
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="confirm-password">Confirm new password</Label>
+                  <Input
+                    id="confirm-password"
+                    type="password"
+                    minLength={6}
+                    value={passwordData.confirm}
+                    onChange={(e) => setPasswordData({ ...passwordData, confirm: e.target.value })}
+                    required
+                  />
+                </div>
+
+                <div className="flex justify-end">
+                  <Button type="submit" variant="secondary" disabled={updatingPassword}>
+                    {updatingPassword ? "Updating..." : "Update password"}
+                  </Button>
+                </div>
+              </form>
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default Settings;
@@ -0,0 +1,168 @@
+import { useEffect, useRef, useState } from 'react';
+import { Navigate, useParams } from 'react-router-dom';
+import { useAuth } from '@/contexts/AuthContext';
+import Navbar from '@/components/Navbar';
+import MasonryGrid from '@/components/MasonryGrid';
+import TagFollowButton from '@/components/TagFollowButton';
+import { toast } from '@/hooks/use-toast';
+import { Hash, Loader2 } from 'lucide-react';
+import { fetchFeedPage, type FeedCursor, type FeedPage } from '@/lib/feed';
+import { toggleInSet } from '@/lib/pins';
+import { fetchTag, normalizeTag, tagPath, type TagDetails } from '@/lib/tags';
+import type { Pin } from '@/types/pin';
+
+const Tag = () => {
+  const { slug = '' } = useParams<{ slug: string }>();
+  const canonicalSlug = normalizeTag(slug);
+  const { user } = useAuth();
+  const userId = user?.id;
+  const [details, setDetails] = useState<TagDetails | null>(null);
+  const [pins, setPins] = useState<Pin[]>([]);
+  const [likedPins, setLikedPins] = useState<Set<string>>(new Set());
+  const [savedPins, setSavedPins] = useState<Set<string>>(new Set());
+  const [loading, setLoading] = useState(true);
+  const [cursor, setCursor] = useState<FeedCursor | null>(null);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [loadMoreError, setLoadMoreError] = useState(false);
+  // Guards against overlapping page loads and stale responses after moving to another tag
+  const requestRef = useRef(0);
+  const loadingMoreRef = useRef(false);
+
+  const mergePage = (page: FeedPage) => {
+    setLikedPins(prev => new Set([...prev, ...page.liked]));
+    setSavedPins(prev => new Set([...prev, ...page.saved]));
+    setCursor(page.nextCursor);
+  };
+
+  useEffect(() => {
+    const request = ++requestRef.current;
+    setPins([]);
+    setDetails(null);
+    setCursor(null);
+    setLoadMoreError(false);
+
+    if (!canonicalSlug || slug !== canonicalSlug) {
+      setLoading(false);
+      return;
+    }
+
+    const loadTag = async () => {
+      setLoading(true);
+
+      try {
+        const [tagDetails, page] = await Promise.all([
+          fetchTag(slug),
+          fetchFeedPage({ tag: slug })
+        ]);
+        if (request !== requestRef.current) return;
+
+        setDetails(tagDetails);
+        setPins(page.pins);
+        mergePage(page);
+      } catch (error) {
+        toast({
+          title: "Error",
+          description: "Failed to load pins for this tag",
+          variant: "destructive"
+        });
+      } finally {
+        if (request === requestRef.current) {
+          setLoading(false);
+        }
+      }
+    };
+
+    loadTag();
+  }, [slug, canonicalSlug, userId]);
+
+  const loadNextPage = async () => {
+    if (!cursor || loadingMoreRef.current) return;
+
+    const request = requestRef.current;
+    loadingMoreRef.current = true;
+    setLoadingMore(true);
+    setLoadMoreError(false);
+
+    try {
+      const page = await fetchFeedPage({ cursor, tag: slug });
+      if (request !== requestRef.current) return;
+
+      setPins(prev => {
+        const seen = new Set(prev.map(pin => pin.id));
+        return [...prev, ...page.pins.filter(pin => !seen.has(pin.id))];
+      });
+      mergePage(page);
+    } catch (error) {
+      if (request === requestRef.current) {
+        setLoadMoreError(true);
+      }
+    } finally {
+      loadingMoreRef.current = false;
+      setLoadingMore(false);
+    }
+  };
+
+  const handleLike = (pinId: string, liked: boolean) => {
+    setLikedPins(prev => toggleInSet(prev, pinId, liked));
+  };
+
+  const handleSave = (pinId: string, saved: boolean) => {
+    setSavedPins(prev => toggleInSet(prev, pinId, saved));
+  };
+
+  const handleDelete = (pinId: string) => {
+    setPins(prev => prev.filter(pin => pin.id !== pinId));
+  };
+
+  // "/tag/Home Decor" and "/tag/%23food" land on the canonical URL
+  if (canonicalSlug && slug !== canonicalSlug) {
+    return <Navigate to={tagPath(canonicalSlug)} replace />;
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Navbar />
+
+      <main className="max-w-7xl mx-auto">
+        <div className="flex flex-col items-center text-center px-4 pt-8 pb-2">
+          <div className="w-14 h-14 rounded-full bg-muted flex items-center justify-center mb-3">
+            <Hash className="w-6 h-6 text-muted-foreground" />
+          </div>
+          <h1 className="text-3xl font-bold text-foreground">{details?.tag.name ?? canonicalSlug}</h1>
+          {details && (
+            <p className="text-muted-foreground mt-1">
+              {details.pinCount} {details.pinCount === 1 ? 'pin' : 'pins'}
+            </p>
+          )}
+          {details && <TagFollowButton tagId={details.tag.id} className="mt-4" />}
+        </div>
+
+        {loading ? (
+          <div className="flex items-center justify-center h-96">
+            <Loader2 className="w-8 h-8 animate-spin text-muted-foreground" />
+          </div>
+        ) : pins.length === 0 ? (
+          <div className="text-center py-16">
+            <h2 className="text-2xl font-semibold text-foreground mb-4">No pins with this tag</h2>
+            <p className="text-muted-foreground">Tag your pins with #{canonicalSlug} to show them here</p>
+          </div>
+        ) : (
+          <MasonryGrid
+            pins={pins}
+            likedPins={likedPins}
+            savedPins={savedPins}
+            onLike={handleLike}
+            onSave={handleSave}
+            onDelete={handleDelete}
+            hasMore={!!cursor}
+            loadingMore={loadingMore}
+            loadMoreError={loadMoreError}
+            onLoadMore={loadNextPage}
+          />
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default Tag;
@@ -0,0 +1,51 @@
+import { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import InterestsPicker from '@/components/InterestsPicker';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Pin } from 'lucide-react';
+
+// First stop after signing up: pick a few topics for the For you feed
+const Welcome = () => {
+  const navigate = useNavigate();
+  const [followedCount, setFollowedCount] = useState(0);
+
+  const finish = () => navigate('/?feed=for-you', { replace: true });
+
+  return (
+    <div className="min-h-screen bg-gradient-subtle flex items-center justify-center p-4">
+      <div className="w-full max-w-2xl">
+        <div className="text-center mb-8">
+          <div className="flex items-center justify-center mb-4">
+            <div className="w-12 h-12 bg-gradient-primary rounded-full flex items-center justify-center">
+              <Pin className="w-6 h-6 text-primary-foreground" />
+            </div>
+          </div>
+          <h1 className="text-3xl font-bold text-foreground">What are you into?</h1>
+          <p className="text-muted-foreground mt-2">Follow a few topics and we will fill your feed with them</p>
+        </div>
+
+        <Card className="shadow-hover border-0">
+          <CardHeader>
+            <CardTitle>Pick your interests</CardTitle>
+            <CardDescription>You can change these any time in Settings.</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <InterestsPicker onFollowedChange={setFollowedCount} />
+
+            <div className="flex items-center justify-end gap-2">
+              <Button variant="ghost" onClick={() => navigate('/', { replace: true })}>
+                Skip for now
+              </Button>
+              <Button onClick={finish} disabled={followedCount === 0}>
+                Continue
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default Welcome;
@@ -0,0 +1,36 @@
+import type { Database } from '@/integrations/supabase/types';
+import type { CameraInfo } from '@/lib/exif';
+import type { ImageVariant } from '@/lib/images';
+
+export type PinVisibility = Database['public']['Enums']['visibility'];
+
+export interface PinAuthor {
+  username: string;
+  display_name?: string;
+  avatar_url?: string;
+}
+
+export interface Pin {
+  id: string;
+  title: string;
+  description?: string;
+  image_url: string;
+  // Smaller renditions for srcset, widest last; missing on older pins
+  image_variants?: ImageVariant[] | null;
+  // Intrinsic image size; missing on pins uploaded before it was recorded
+  width?: number | null;
+  height?: number | null;
+  // Blurred preview and background colour shown until the image loads
+  placeholder?: string | null;
+  dominant_color?: string | null;
+  // Only present when the uploader chose to share it
+  camera_info?: CameraInfo | null;
+  tags?: string[];
+  user_id: string;
+  created_at: string;
+  visibility?: PinVisibility;
+  like_count?: number;
+  save_count?: number;
+  comment_count?: number;
+  profiles?: PinAuthor;
+}
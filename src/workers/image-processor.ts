@@ -0,0 +1,177 @@
+// Decodes an uploaded image off the main thread and re-encodes it at a set of
+// widths, so feeds can load small renditions instead of the original file.
+// Decoding applies the EXIF orientation, and the encoded renditions carry no
+// metadata at all, so location and device details never leave the browser.
+
+export interface ImageProcessorRequest {
+  file: Blob;
+  // Target widths; any at or above the image's own width are skipped, and a
+  // full-size rendition is always included
+  widths: number[];
+}
+
+export interface ProcessedRendition {
+  width: number;
+  height: number;
+  blob: Blob;
+}
+
+export type ImageProcessorResponse =
+  | {
+    width: number;
+    height: number;
+    type: string;
+    renditions: ProcessedRendition[];
+    // Tiny data URL shown blurred while a rendition loads
+    placeholder: string | null;
+    // Most common colour, as #rrggbb; null for fully transparent images
+    dominantColor: string | null;
+  }
+  | { error: string };
+
+// Preferred formats first; canvases fall back to PNG for types they cannot
+// encode, so each one is checked against the blob that comes back
+const OUTPUT_TYPES = ['image/avif', 'image/webp'];
+const FALLBACK_TYPE = 'image/jpeg';
+const QUALITY = 0.82;
+
+// Previews fit in a 16px box whatever the image's shape, and are dropped if
+// they still exceed the pins.placeholder length check
+const PLACEHOLDER_SIZE = 16;
+const PLACEHOLDER_QUALITY = 0.5;
+const PLACEHOLDER_MAX_LENGTH = 4096;
+
+// Colours are grouped by their top bits per channel when picking the
+// dominant one
+const COLOR_BITS = 4;
+
+const worker = self as unknown as Worker;
+
+const render = (
+  bitmap: ImageBitmap,
+  width: number,
+  height = Math.max(Math.round(bitmap.height * width / bitmap.width), 1)
+) => {
+  const canvas = new OffscreenCanvas(width, height);
+  const context = canvas.getContext('2d');
+  if (!context) throw new Error('Canvas is not available');
+
+  context.imageSmoothingQuality = 'high';
+  context.drawImage(bitmap, 0, 0, width, height);
+  return { canvas, height };
+};
+
+const encode = async (canvas: OffscreenCanvas, type: string, quality = QUALITY) => {
+  const blob = await canvas.convertToBlob({ type, quality });
+  return blob.type === type ? blob : null;
+};
+
+const toDataUrl = async (blob: Blob) => {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  let binary = '';
+  bytes.forEach(byte => {
+    binary += String.fromCharCode(byte);
+  });
+  return `data:${blob.type};base64,${btoa(binary)}`;
+};
+
+interface ColorBucket {
+  count: number;
+  r: number;
+  g: number;
+  b: number;
+}
+
+const toHex = (value: number) => Math.round(value).toString(16).padStart(2, '0');
+
+// Averages the pixels of the most populated colour bucket, so a small bright
+// subject on a large background gives the background colour rather than a
+// muddy mix of both
+const dominantColor = ({ data }: ImageData) => {
+  const shift = 8 - COLOR_BITS;
+  const buckets = new Map<number, ColorBucket>();
+
+  for (let i = 0; i < data.length; i += 4) {
+    if (data[i + 3] < 128) continue;
+
+    const [r, g, b] = [data[i], data[i + 1], data[i + 2]];
+    const key = ((r >> shift) << (COLOR_BITS * 2)) | ((g >> shift) << COLOR_BITS) | (b >> shift);
+    const bucket = buckets.get(key) ?? { count: 0, r: 0, g: 0, b: 0 };
+    bucket.count++;
+    bucket.r += r;
+    bucket.g += g;
+    bucket.b += b;
+    buckets.set(key, bucket);
+  }
+
+  let best: ColorBucket | null = null;
+  buckets.forEach(bucket => {
+    if (!best || bucket.count > best.count) best = bucket;
+  });
+  if (!best) return null;
+
+  return `#${toHex(best.r / best.count)}${toHex(best.g / best.count)}${toHex(best.b / best.count)}`;
+};
+
+const processImage = async ({ file, widths }: ImageProcessorRequest): Promise<ImageProcessorResponse> => {
+  const bitmap = await createImageBitmap(file, { imageOrientation: 'from-image' });
+
+  try {
+    const targets = [...new Set(widths.filter(width => width < bitmap.width)), bitmap.width]
+      .sort((a, b) => a - b);
+    const renditions: ProcessedRendition[] = [];
+    let type: string | null = null;
+
+    for (const width of targets) {
+      const { canvas, height } = render(bitmap, width);
+
+      // Settle on a format with the first (smallest) rendition
+      let blob: Blob | null = null;
+      if (type) {
+        blob = await encode(canvas, type);
+      } else {
+        for (const candidate of [...OUTPUT_TYPES, FALLBACK_TYPE]) {
+          blob = await encode(canvas, candidate);
+          if (blob) {
+            type = candidate;
+            break;
+          }
+        }
+      }
+      if (!blob) throw new Error('Could not encode the image');
+
+      renditions.push({ width, height, blob });
+    }
+
+    const previewScale = Math.min(PLACEHOLDER_SIZE / Math.max(bitmap.width, bitmap.height), 1);
+    const preview = render(
+      bitmap,
+      Math.max(Math.round(bitmap.width * previewScale), 1),
+      Math.max(Math.round(bitmap.height * previewScale), 1)
+    );
+    const previewBlob = await encode(preview.canvas, type, PLACEHOLDER_QUALITY);
+    const previewUrl = previewBlob ? await toDataUrl(previewBlob) : null;
+    const pixels = preview.canvas.getContext('2d').getImageData(0, 0, preview.canvas.width, preview.height);
+
+    return {
+      width: bitmap.width,
+      height: bitmap.height,
+      type,
+      renditions,
+      placeholder: previewUrl && previewUrl.length <= PLACEHOLDER_MAX_LENGTH ? previewUrl : null,
+      dominantColor: dominantColor(pixels)
+    };
+  } finally {
+    bitmap.close();
+  }
+};
+
+worker.onmessage = async (event: MessageEvent<ImageProcessorRequest>) => {
+  let response: ImageProcessorResponse;
+  try {
+    response = await processImage(event.data);
+  } catch (error) {
+    response = { error: error instanceof Error ? error.message : 'Could not process the image' };
+  }
+  worker.postMessage(response);
+};
@@ -0,0 +1,29 @@
+-- Create storage bucket for profile avatars
+INSERT INTO storage.buckets (id, name, public) VALUES ('avatars', 'avatars', true);
+
+-- Storage policies for avatars, each user writes into their own folder
+CREATE POLICY "Avatar images are publicly accessible" 
+ON storage.objects FOR SELECT USING (bucket_id = 'avatars');
+
+CREATE POLICY "Users can upload their own avatar" 
+ON storage.objects FOR INSERT WITH CHECK (
+  bucket_id = 'avatars' AND 
+  auth.uid()::text = (storage.foldername(name))[1]
+);
+
+CREATE POLICY "Users can update their own avatar" 
+ON storage.objects FOR UPDATE USING (
+  bucket_id = 'avatars' AND 
+  auth.uid()::text = (storage.foldername(name))[1]
+);
+
+CREATE POLICY "Users can delete their own avatar" 
+ON storage.objects FOR DELETE USING (
+  bucket_id = 'avatars' AND 
+  auth.uid()::text = (storage.foldername(name))[1]
+);
+
+-- Keep usernames URL friendly now that they are editable
+ALTER TABLE public.profiles
+  ADD CONSTRAINT profiles_username_format
+  CHECK (username ~ '^[A-Za-z0-9_.-]{3,30}$') NOT VALID;
@@ -0,0 +1,138 @@
+-- Who can see a board
+CREATE TYPE public.visibility AS ENUM ('public', 'secret');
+
+-- Create boards table for named pin collections
+CREATE TABLE public.boards (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL CHECK (char_length(trim(name)) BETWEEN 1 AND 50),
+  slug TEXT NOT NULL,
+  description TEXT,
+  cover_pin_id UUID REFERENCES public.pins(id) ON DELETE SET NULL,
+  visibility public.visibility NOT NULL DEFAULT 'public',
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE(user_id, slug)
+);
+
+ALTER TABLE public.boards ENABLE ROW LEVEL SECURITY;
+
+-- RLS policies for boards
+CREATE POLICY "Public boards are viewable by everyone, secret boards by their owner" 
+ON public.boards FOR SELECT USING (visibility = 'public' OR auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own boards" 
+ON public.boards FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own boards" 
+ON public.boards FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own boards" 
+ON public.boards FOR DELETE USING (auth.uid() = user_id);
+
+-- Turn a board name into a URL segment
+CREATE OR REPLACE FUNCTION public.slugify(value TEXT)
+RETURNS TEXT AS $$
+  SELECT coalesce(
+    nullif(trim(both '-' from regexp_replace(lower(value), '[^a-z0-9]+', '-', 'g')), ''),
+    'board'
+  );
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Derive a slug from the name that is unique among the owner's boards
+CREATE OR REPLACE FUNCTION public.set_board_slug()
+RETURNS TRIGGER AS $$
+DECLARE
+  base_slug TEXT := public.slugify(NEW.name);
+  candidate TEXT := base_slug;
+  suffix INT := 1;
+BEGIN
+  IF TG_OP = 'UPDATE' AND NEW.name = OLD.name THEN
+    NEW.slug := OLD.slug;
+    RETURN NEW;
+  END IF;
+
+  WHILE EXISTS (
+    SELECT 1 FROM public.boards
+    WHERE user_id = NEW.user_id AND slug = candidate AND id <> NEW.id
+  ) LOOP
+    suffix := suffix + 1;
+    candidate := base_slug || '-' || suffix;
+  END LOOP;
+
+  NEW.slug := candidate;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER set_boards_slug
+  BEFORE INSERT OR UPDATE ON public.boards
+  FOR EACH ROW
+  EXECUTE FUNCTION public.set_board_slug();
+
+CREATE TRIGGER update_boards_updated_at
+  BEFORE UPDATE ON public.boards
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Saves now belong to a board
+ALTER TABLE public.saves
+  ADD COLUMN board_id UUID REFERENCES public.boards(id) ON DELETE CASCADE;
+
+-- Move existing saves into a default "Saved" board per user. Saves were
+-- only readable by their owner, so these boards stay secret.
+INSERT INTO public.boards (user_id, name, visibility)
+SELECT DISTINCT user_id, 'Saved', 'secret'::public.visibility FROM public.saves;
+
+UPDATE public.saves
+SET board_id = boards.id
+FROM public.boards
+WHERE boards.user_id = saves.user_id AND boards.slug = 'saved';
+
+ALTER TABLE public.saves ALTER COLUMN board_id SET NOT NULL;
+
+ALTER TABLE public.saves DROP CONSTRAINT saves_user_id_pin_id_key;
+ALTER TABLE public.saves ADD CONSTRAINT saves_board_id_pin_id_key UNIQUE (board_id, pin_id);
+
+CREATE INDEX saves_user_id_pin_id_idx ON public.saves (user_id, pin_id);
+
+-- Saves are as visible as the board they are in
+DROP POLICY "Users can view their own saves" ON public.saves;
+CREATE POLICY "Saves are viewable with their board" 
+ON public.saves FOR SELECT USING (
+  EXISTS (SELECT 1 FROM public.boards WHERE boards.id = board_id)
+);
+
+DROP POLICY "Users can create their own saves" ON public.saves;
+CREATE POLICY "Users can save into their own boards" 
+ON public.saves FOR INSERT WITH CHECK (
+  auth.uid() = user_id AND
+  EXISTS (
+    SELECT 1 FROM public.boards
+    WHERE boards.id = board_id AND boards.user_id = auth.uid()
+  )
+);
+
+-- Use the first pin saved into a board as its cover
+CREATE OR REPLACE FUNCTION public.set_board_cover()
+RETURNS TRIGGER AS $$
+BEGIN
+  UPDATE public.boards
+  SET cover_pin_id = NEW.pin_id
+  WHERE id = NEW.board_id AND cover_pin_id IS NULL;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER set_boards_cover
+  AFTER INSERT ON public.saves
+  FOR EACH ROW
+  EXECUTE FUNCTION public.set_board_cover();
+
+UPDATE public.boards
+SET cover_pin_id = (
+  SELECT pin_id FROM public.saves
+  WHERE saves.board_id = boards.id
+  ORDER BY created_at
+  LIMIT 1
+);
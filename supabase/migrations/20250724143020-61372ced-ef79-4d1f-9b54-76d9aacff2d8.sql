@@ -0,0 +1,76 @@
+-- Create board sections for splitting a board into sub-groups
+CREATE TABLE public.board_sections (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  board_id UUID NOT NULL REFERENCES public.boards(id) ON DELETE CASCADE,
+  name TEXT NOT NULL CHECK (char_length(trim(name)) BETWEEN 1 AND 50),
+  position INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE(id, board_id)
+);
+
+CREATE INDEX board_sections_board_id_position_idx ON public.board_sections (board_id, position);
+
+ALTER TABLE public.board_sections ENABLE ROW LEVEL SECURITY;
+
+-- RLS policies for board sections
+CREATE POLICY "Board sections are viewable by everyone" 
+ON public.board_sections FOR SELECT USING (true);
+
+CREATE POLICY "Board owners can create sections" 
+ON public.board_sections FOR INSERT WITH CHECK (
+  EXISTS (
+    SELECT 1 FROM public.boards
+    WHERE boards.id = board_id AND boards.user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Board owners can update sections" 
+ON public.board_sections FOR UPDATE USING (
+  EXISTS (
+    SELECT 1 FROM public.boards
+    WHERE boards.id = board_id AND boards.user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Board owners can delete sections" 
+ON public.board_sections FOR DELETE USING (
+  EXISTS (
+    SELECT 1 FROM public.boards
+    WHERE boards.id = board_id AND boards.user_id = auth.uid()
+  )
+);
+
+CREATE TRIGGER update_board_sections_updated_at
+  BEFORE UPDATE ON public.board_sections
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- A saved pin sits in at most one section of its own board; deleting the
+-- section moves its pins back to the top of the board
+ALTER TABLE public.saves
+  ADD COLUMN section_id UUID,
+  ADD CONSTRAINT saves_section_id_fkey
+    FOREIGN KEY (section_id, board_id)
+    REFERENCES public.board_sections(id, board_id)
+    ON DELETE SET NULL (section_id);
+
+CREATE INDEX saves_section_id_idx ON public.saves (section_id);
+
+CREATE POLICY "Board owners can organize saves" 
+ON public.saves FOR UPDATE USING (
+  EXISTS (
+    SELECT 1 FROM public.boards
+    WHERE boards.id = board_id AND boards.user_id = auth.uid()
+  )
+);
+
+-- Persist a new section order in one statement
+CREATE OR REPLACE FUNCTION public.reorder_board_sections(target_board_id UUID, section_ids UUID[])
+RETURNS VOID AS $$
+  UPDATE public.board_sections
+  SET position = ordering.idx
+  FROM unnest(section_ids) WITH ORDINALITY AS ordering(id, idx)
+  WHERE board_sections.id = ordering.id
+    AND board_sections.board_id = target_board_id;
+$$ LANGUAGE sql;
@@ -0,0 +1,108 @@
+-- Roles a collaborator can hold on a board
+CREATE TYPE public.board_role AS ENUM ('owner', 'editor', 'viewer');
+
+-- Create board members table for collaborative boards
+CREATE TABLE public.board_members (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  board_id UUID NOT NULL REFERENCES public.boards(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  role public.board_role NOT NULL DEFAULT 'viewer',
+  invited_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE(board_id, user_id)
+);
+
+CREATE INDEX board_members_user_id_idx ON public.board_members (user_id);
+
+ALTER TABLE public.board_members ENABLE ROW LEVEL SECURITY;
+
+-- Membership lookups used by RLS policies. SECURITY DEFINER so policies on
+-- board_members itself can call them without recursing.
+CREATE OR REPLACE FUNCTION public.board_role_for(target_board_id UUID, target_user_id UUID DEFAULT auth.uid())
+RETURNS public.board_role AS $$
+  SELECT role FROM public.board_members
+  WHERE board_id = target_board_id AND user_id = target_user_id;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.can_edit_board(target_board_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT coalesce(public.board_role_for(target_board_id) IN ('owner', 'editor'), false);
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- RLS policies for board members
+CREATE POLICY "Board members are viewable by everyone" 
+ON public.board_members FOR SELECT USING (true);
+
+CREATE POLICY "Board owners can invite members" 
+ON public.board_members FOR INSERT WITH CHECK (
+  public.board_role_for(board_id) = 'owner' AND
+  role <> 'owner' AND
+  invited_by = auth.uid()
+);
+
+CREATE POLICY "Board owners can change member roles" 
+ON public.board_members FOR UPDATE
+USING (public.board_role_for(board_id) = 'owner' AND role <> 'owner')
+WITH CHECK (public.board_role_for(board_id) = 'owner' AND role <> 'owner');
+
+-- Only the role changes; a membership never moves to another board or user
+REVOKE UPDATE ON public.board_members FROM anon, authenticated;
+GRANT UPDATE (role) ON public.board_members TO authenticated;
+
+CREATE POLICY "Owners can remove members and members can leave" 
+ON public.board_members FOR DELETE USING (
+  role <> 'owner' AND
+  (public.board_role_for(board_id) = 'owner' OR auth.uid() = user_id)
+);
+
+-- Every board's creator is its owner member
+CREATE OR REPLACE FUNCTION public.add_board_owner()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO public.board_members (board_id, user_id, role)
+  VALUES (NEW.id, NEW.user_id, 'owner');
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER add_boards_owner
+  AFTER INSERT ON public.boards
+  FOR EACH ROW
+  EXECUTE FUNCTION public.add_board_owner();
+
+INSERT INTO public.board_members (board_id, user_id, role)
+SELECT id, user_id, 'owner' FROM public.boards;
+
+-- Editors can add, organize and remove pins
+DROP POLICY "Users can save into their own boards" ON public.saves;
+CREATE POLICY "Board editors can save pins" 
+ON public.saves FOR INSERT WITH CHECK (
+  auth.uid() = user_id AND
+  public.can_edit_board(board_id)
+);
+
+DROP POLICY "Board owners can organize saves" ON public.saves;
+CREATE POLICY "Board editors can organize saves" 
+ON public.saves FOR UPDATE USING (public.can_edit_board(board_id));
+
+-- Organizing only files a pin into a section; the save itself never moves to
+-- another board, pin or user
+REVOKE UPDATE ON public.saves FROM anon, authenticated;
+GRANT UPDATE (section_id) ON public.saves TO authenticated;
+
+DROP POLICY "Users can delete their own saves" ON public.saves;
+CREATE POLICY "Board editors can remove pins" 
+ON public.saves FOR DELETE USING (public.can_edit_board(board_id));
+
+-- Editors can manage sections
+DROP POLICY "Board owners can create sections" ON public.board_sections;
+CREATE POLICY "Board editors can create sections" 
+ON public.board_sections FOR INSERT WITH CHECK (public.can_edit_board(board_id));
+
+DROP POLICY "Board owners can update sections" ON public.board_sections;
+CREATE POLICY "Board editors can update sections" 
+ON public.board_sections FOR UPDATE USING (public.can_edit_board(board_id));
+
+DROP POLICY "Board owners can delete sections" ON public.board_sections;
+CREATE POLICY "Board editors can delete sections" 
+ON public.board_sections FOR DELETE USING (public.can_edit_board(board_id));
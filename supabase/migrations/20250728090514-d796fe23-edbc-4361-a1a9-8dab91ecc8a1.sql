@@ -0,0 +1,112 @@
+-- Pins get the same public / secret setting as boards
+ALTER TABLE public.pins
+  ADD COLUMN visibility public.visibility NOT NULL DEFAULT 'public';
+
+-- Public boards are open to everyone, secret ones only to their members.
+-- The owner is checked directly as well: their member row is only written
+-- by an AFTER INSERT trigger, after RETURNING has been checked against the
+-- SELECT policy.
+CREATE OR REPLACE FUNCTION public.can_view_board(target_board_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.boards
+    WHERE id = target_board_id
+      AND (
+        visibility = 'public' OR
+        auth.uid() = user_id OR
+        public.board_role_for(id) IS NOT NULL
+      )
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Secret pins are shared with the members of boards they are saved in, as
+-- long as the pin's owner is a member of that board too. Saves made into
+-- anyone else's board do not share the pin any further.
+CREATE OR REPLACE FUNCTION public.is_pin_collaborator(target_pin_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.pins
+    JOIN public.saves ON saves.pin_id = pins.id
+    JOIN public.board_members AS owner_member
+      ON owner_member.board_id = saves.board_id AND owner_member.user_id = pins.user_id
+    JOIN public.board_members
+      ON board_members.board_id = saves.board_id AND board_members.user_id = auth.uid()
+    WHERE pins.id = target_pin_id
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- RLS policies for pins
+DROP POLICY "Pins are viewable by everyone" ON public.pins;
+CREATE POLICY "Public pins are viewable by everyone, secret pins by owner and collaborators" 
+ON public.pins FOR SELECT USING (
+  visibility = 'public' OR
+  auth.uid() = user_id OR
+  public.is_pin_collaborator(id)
+);
+
+-- RLS policies for boards and their contents
+DROP POLICY "Public boards are viewable by everyone, secret boards by their owner" ON public.boards;
+CREATE POLICY "Public boards are viewable by everyone, secret boards by members" 
+ON public.boards FOR SELECT USING (
+  visibility = 'public' OR
+  auth.uid() = user_id OR
+  public.board_role_for(id) IS NOT NULL
+);
+
+DROP POLICY "Saves are viewable with their board" ON public.saves;
+CREATE POLICY "Saves are viewable with their board" 
+ON public.saves FOR SELECT USING (public.can_view_board(board_id));
+
+-- Only pins the saver can see may be saved; the foreign key alone would
+-- accept any pin id
+DROP POLICY "Board editors can save pins" ON public.saves;
+CREATE POLICY "Board editors can save pins" 
+ON public.saves FOR INSERT WITH CHECK (
+  auth.uid() = user_id AND
+  public.can_edit_board(board_id) AND
+  EXISTS (SELECT 1 FROM public.pins WHERE pins.id = pin_id)
+);
+
+DROP POLICY "Board sections are viewable by everyone" ON public.board_sections;
+CREATE POLICY "Board sections are viewable with their board" 
+ON public.board_sections FOR SELECT USING (public.can_view_board(board_id));
+
+DROP POLICY "Board members are viewable by everyone" ON public.board_members;
+CREATE POLICY "Board members are viewable with their board" 
+ON public.board_members FOR SELECT USING (public.can_view_board(board_id));
+
+DROP POLICY "Likes are viewable by everyone" ON public.likes;
+CREATE POLICY "Likes are viewable with their pin" 
+ON public.likes FOR SELECT USING (
+  EXISTS (SELECT 1 FROM public.pins WHERE pins.id = pin_id)
+);
+
+-- Private bucket for secret pin images, served through signed URLs.
+-- Secret pins store the object path in image_url.
+INSERT INTO storage.buckets (id, name, public) VALUES ('pin-images-secret', 'pin-images-secret', false);
+
+CREATE POLICY "Secret pin images are visible to whoever can see the pin" 
+ON storage.objects FOR SELECT USING (
+  bucket_id = 'pin-images-secret' AND (
+    auth.uid()::text = (storage.foldername(name))[1] OR
+    EXISTS (SELECT 1 FROM public.pins WHERE pins.image_url = storage.objects.name)
+  )
+);
+
+CREATE POLICY "Users can upload their own secret pin images" 
+ON storage.objects FOR INSERT WITH CHECK (
+  bucket_id = 'pin-images-secret' AND 
+  auth.uid()::text = (storage.foldername(name))[1]
+);
+
+CREATE POLICY "Users can update their own secret pin images" 
+ON storage.objects FOR UPDATE USING (
+  bucket_id = 'pin-images-secret' AND 
+  auth.uid()::text = (storage.foldername(name))[1]
+);
+
+CREATE POLICY "Users can delete their own secret pin images" 
+ON storage.objects FOR DELETE USING (
+  bucket_id = 'pin-images-secret' AND 
+  auth.uid()::text = (storage.foldername(name))[1]
+);
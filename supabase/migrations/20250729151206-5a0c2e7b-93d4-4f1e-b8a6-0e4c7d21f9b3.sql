@@ -0,0 +1,90 @@
+-- Comments on pins, with one level of replies
+CREATE TABLE public.comments (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  pin_id UUID NOT NULL REFERENCES public.pins(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  parent_id UUID REFERENCES public.comments(id) ON DELETE CASCADE,
+  body TEXT NOT NULL CHECK (char_length(btrim(body)) BETWEEN 1 AND 1000),
+  edited BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX comments_pin_id_idx ON public.comments (pin_id, created_at);
+CREATE INDEX comments_parent_id_idx ON public.comments (parent_id);
+
+ALTER TABLE public.comments ENABLE ROW LEVEL SECURITY;
+
+-- RLS policies for comments
+CREATE POLICY "Comments are viewable with their pin"
+ON public.comments FOR SELECT USING (
+  EXISTS (SELECT 1 FROM public.pins WHERE pins.id = pin_id)
+);
+
+CREATE POLICY "Users can comment on pins they can see"
+ON public.comments FOR INSERT WITH CHECK (
+  auth.uid() = user_id AND
+  EXISTS (SELECT 1 FROM public.pins WHERE pins.id = pin_id)
+);
+
+CREATE POLICY "Users can edit their own comments"
+ON public.comments FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Authors and pin owners can delete comments"
+ON public.comments FOR DELETE USING (
+  auth.uid() = user_id OR
+  EXISTS (
+    SELECT 1 FROM public.pins
+    WHERE pins.id = pin_id AND pins.user_id = auth.uid()
+  )
+);
+
+-- Replies to a reply attach to the top-level comment, and must stay on the
+-- same pin as their parent
+CREATE OR REPLACE FUNCTION public.thread_comment_reply()
+RETURNS TRIGGER AS $$
+DECLARE
+  parent public.comments%ROWTYPE;
+BEGIN
+  IF NEW.parent_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO parent FROM public.comments WHERE id = NEW.parent_id;
+
+  IF parent.pin_id IS DISTINCT FROM NEW.pin_id THEN
+    RAISE EXCEPTION 'Reply must be on the same pin as its parent comment';
+  END IF;
+
+  NEW.parent_id := COALESCE(parent.parent_id, parent.id);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER thread_comment_reply
+  BEFORE INSERT ON public.comments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.thread_comment_reply();
+
+-- Only the body of a comment can change, and changing it marks it edited
+CREATE OR REPLACE FUNCTION public.mark_comment_edited()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.pin_id := OLD.pin_id;
+  NEW.user_id := OLD.user_id;
+  NEW.parent_id := OLD.parent_id;
+  NEW.created_at := OLD.created_at;
+  NEW.edited := OLD.edited OR NEW.body IS DISTINCT FROM OLD.body;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER mark_comment_edited
+  BEFORE UPDATE ON public.comments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.mark_comment_edited();
+
+CREATE TRIGGER update_comments_updated_at
+  BEFORE UPDATE ON public.comments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
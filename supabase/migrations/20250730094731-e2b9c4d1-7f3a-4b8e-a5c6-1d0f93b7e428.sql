@@ -0,0 +1,26 @@
+-- Users following other users
+CREATE TABLE public.follows (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  follower_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  following_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE(follower_id, following_id),
+  CHECK (follower_id <> following_id)
+);
+
+CREATE INDEX follows_following_id_idx ON public.follows (following_id);
+
+ALTER TABLE public.follows ENABLE ROW LEVEL SECURITY;
+
+-- RLS policies for follows
+CREATE POLICY "Follows are viewable by everyone" 
+ON public.follows FOR SELECT USING (true);
+
+CREATE POLICY "Users can follow others as themselves" 
+ON public.follows FOR INSERT WITH CHECK (auth.uid() = follower_id);
+
+CREATE POLICY "Users can unfollow as themselves" 
+ON public.follows FOR DELETE USING (auth.uid() = follower_id);
+
+-- Following feed reads pins by author, newest first
+CREATE INDEX IF NOT EXISTS pins_user_id_created_at_idx ON public.pins (user_id, created_at DESC);
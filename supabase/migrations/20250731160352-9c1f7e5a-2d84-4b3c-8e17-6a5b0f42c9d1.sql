@@ -0,0 +1,151 @@
+-- In-app notifications, written by triggers on the interaction tables
+CREATE TYPE public.notification_type AS ENUM ('like', 'save', 'comment', 'reply', 'follow');
+
+CREATE TABLE public.notifications (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  recipient_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  actor_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  type public.notification_type NOT NULL,
+  pin_id UUID REFERENCES public.pins(id) ON DELETE CASCADE,
+  comment_id UUID REFERENCES public.comments(id) ON DELETE CASCADE,
+  read_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX notifications_recipient_id_idx ON public.notifications (recipient_id, created_at DESC);
+CREATE INDEX notifications_unread_idx ON public.notifications (recipient_id) WHERE read_at IS NULL;
+
+ALTER TABLE public.notifications ENABLE ROW LEVEL SECURITY;
+
+-- RLS policies for notifications. There is no insert policy: rows only
+-- come from the triggers below.
+CREATE POLICY "Users can view their own notifications"
+ON public.notifications FOR SELECT USING (auth.uid() = recipient_id);
+
+CREATE POLICY "Users can mark their own notifications read"
+ON public.notifications FOR UPDATE USING (auth.uid() = recipient_id);
+
+CREATE POLICY "Users can delete their own notifications"
+ON public.notifications FOR DELETE USING (auth.uid() = recipient_id);
+
+-- Nobody is notified about their own activity
+CREATE OR REPLACE FUNCTION public.notify(
+  recipient UUID,
+  actor UUID,
+  kind public.notification_type,
+  target_pin_id UUID DEFAULT NULL,
+  target_comment_id UUID DEFAULT NULL
+)
+RETURNS VOID AS $$
+BEGIN
+  IF recipient IS NULL OR recipient = actor THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO public.notifications (recipient_id, actor_id, type, pin_id, comment_id)
+  VALUES (recipient, actor, kind, target_pin_id, target_comment_id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Only callable from the triggers, never through the API
+REVOKE EXECUTE ON FUNCTION public.notify(UUID, UUID, public.notification_type, UUID, UUID)
+  FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.notify_pin_interaction()
+RETURNS TRIGGER AS $$
+BEGIN
+  PERFORM public.notify(
+    (SELECT user_id FROM public.pins WHERE id = NEW.pin_id),
+    NEW.user_id,
+    TG_ARGV[0]::public.notification_type,
+    NEW.pin_id
+  );
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER notify_like
+  AFTER INSERT ON public.likes
+  FOR EACH ROW
+  EXECUTE FUNCTION public.notify_pin_interaction('like');
+
+CREATE TRIGGER notify_save
+  AFTER INSERT ON public.saves
+  FOR EACH ROW
+  EXECUTE FUNCTION public.notify_pin_interaction('save');
+
+-- Comments notify the pin owner; replies also notify the comment they answer
+CREATE OR REPLACE FUNCTION public.notify_comment()
+RETURNS TRIGGER AS $$
+DECLARE
+  pin_owner UUID;
+  parent_author UUID;
+BEGIN
+  SELECT user_id INTO pin_owner FROM public.pins WHERE id = NEW.pin_id;
+
+  IF NEW.parent_id IS NOT NULL THEN
+    SELECT user_id INTO parent_author FROM public.comments WHERE id = NEW.parent_id;
+    PERFORM public.notify(parent_author, NEW.user_id, 'reply', NEW.pin_id, NEW.id);
+  END IF;
+
+  IF parent_author IS DISTINCT FROM pin_owner THEN
+    PERFORM public.notify(pin_owner, NEW.user_id, 'comment', NEW.pin_id, NEW.id);
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER notify_comment
+  AFTER INSERT ON public.comments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.notify_comment();
+
+CREATE OR REPLACE FUNCTION public.notify_follow()
+RETURNS TRIGGER AS $$
+BEGIN
+  PERFORM public.notify(NEW.following_id, NEW.follower_id, 'follow');
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER notify_follow
+  AFTER INSERT ON public.follows
+  FOR EACH ROW
+  EXECUTE FUNCTION public.notify_follow();
+
+-- Undoing a like or follow withdraws its unread notification, so toggling
+-- does not pile up duplicates
+CREATE OR REPLACE FUNCTION public.withdraw_notification()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_TABLE_NAME = 'follows' THEN
+    DELETE FROM public.notifications
+    WHERE type = 'follow'
+      AND actor_id = OLD.follower_id
+      AND recipient_id = OLD.following_id
+      AND read_at IS NULL;
+  ELSE
+    DELETE FROM public.notifications
+    WHERE type = 'like'
+      AND actor_id = OLD.user_id
+      AND pin_id = OLD.pin_id
+      AND read_at IS NULL;
+  END IF;
+  RETURN OLD;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER withdraw_like_notification
+  AFTER DELETE ON public.likes
+  FOR EACH ROW
+  EXECUTE FUNCTION public.withdraw_notification();
+
+CREATE TRIGGER withdraw_follow_notification
+  AFTER DELETE ON public.follows
+  FOR EACH ROW
+  EXECUTE FUNCTION public.withdraw_notification();
+
+-- Only a notification's read state can change
+REVOKE UPDATE ON public.notifications FROM anon, authenticated;
+GRANT UPDATE (read_at) ON public.notifications TO authenticated;
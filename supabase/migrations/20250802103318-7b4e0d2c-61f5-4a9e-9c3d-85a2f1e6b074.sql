@@ -0,0 +1,3 @@
+-- Stream pin and like changes to subscribed clients. Realtime applies the
+-- SELECT policies, so secret pins only reach the people who can see them.
+ALTER PUBLICATION supabase_realtime ADD TABLE public.pins, public.likes;
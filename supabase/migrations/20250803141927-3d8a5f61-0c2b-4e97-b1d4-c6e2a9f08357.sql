@@ -0,0 +1,2 @@
+-- Keyset pagination of the feed walks pins newest first, ties broken by id
+CREATE INDEX pins_created_at_id_idx ON public.pins (created_at DESC, id DESC);
@@ -0,0 +1,49 @@
+-- Link pins to their author's profile so PostgREST can embed it. Profiles are
+-- created on first sign-in; backfill any author that never got one.
+INSERT INTO public.profiles (user_id, username)
+SELECT DISTINCT pins.user_id, 'user_' || substr(replace(pins.user_id::text, '-', ''), 1, 12)
+FROM public.pins
+WHERE NOT EXISTS (
+  SELECT 1 FROM public.profiles WHERE profiles.user_id = pins.user_id
+);
+
+ALTER TABLE public.pins
+  ADD CONSTRAINT pins_user_id_profiles_fkey
+    FOREIGN KEY (user_id) REFERENCES public.profiles(user_id) ON DELETE CASCADE;
+
+-- Everything a pin tile needs in one row: the pin, its author, its counters
+-- and whether the current user has liked or saved it. security_invoker keeps
+-- the RLS policies of the underlying tables in force.
+CREATE VIEW public.feed_pins
+WITH (security_invoker = true) AS
+SELECT
+  pins.id,
+  pins.user_id,
+  pins.title,
+  pins.description,
+  pins.image_url,
+  pins.tags,
+  pins.visibility,
+  pins.created_at,
+  pins.updated_at,
+  profiles.username AS author_username,
+  profiles.display_name AS author_display_name,
+  profiles.avatar_url AS author_avatar_url,
+  (SELECT count(*) FROM public.likes WHERE likes.pin_id = pins.id)::integer AS like_count,
+  (SELECT count(*) FROM public.saves WHERE saves.pin_id = pins.id)::integer AS save_count,
+  (SELECT count(*) FROM public.comments WHERE comments.pin_id = pins.id)::integer AS comment_count,
+  EXISTS (
+    SELECT 1 FROM public.likes
+    WHERE likes.pin_id = pins.id AND likes.user_id = auth.uid()
+  ) AS viewer_liked,
+  EXISTS (
+    SELECT 1 FROM public.saves
+    WHERE saves.pin_id = pins.id AND saves.user_id = auth.uid()
+  ) AS viewer_saved
+FROM public.pins
+JOIN public.profiles ON profiles.user_id = pins.user_id;
+
+GRANT SELECT ON public.feed_pins TO anon, authenticated;
+
+CREATE INDEX IF NOT EXISTS likes_pin_id_idx ON public.likes (pin_id);
+CREATE INDEX IF NOT EXISTS saves_pin_id_idx ON public.saves (pin_id);
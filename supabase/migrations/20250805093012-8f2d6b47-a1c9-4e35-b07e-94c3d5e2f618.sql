@@ -0,0 +1,115 @@
+-- Denormalized counters on pins, kept in step by triggers
+ALTER TABLE public.pins
+  ADD COLUMN like_count INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN save_count INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN comment_count INTEGER NOT NULL DEFAULT 0;
+
+-- Only the triggers below move the counters
+REVOKE UPDATE ON public.pins FROM anon, authenticated;
+GRANT UPDATE (title, description, image_url, tags, visibility) ON public.pins TO authenticated;
+
+-- Counter bumps are not edits, so only content changes touch updated_at
+DROP TRIGGER update_pins_updated_at ON public.pins;
+CREATE TRIGGER update_pins_updated_at
+  BEFORE UPDATE OF title, description, image_url, tags, visibility ON public.pins
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- TG_ARGV[0] names the counter column to move by one
+CREATE OR REPLACE FUNCTION public.bump_pin_counter()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    EXECUTE format('UPDATE public.pins SET %1$I = %1$I + 1 WHERE id = $1', TG_ARGV[0])
+    USING NEW.pin_id;
+    RETURN NEW;
+  END IF;
+
+  EXECUTE format('UPDATE public.pins SET %1$I = greatest(%1$I - 1, 0) WHERE id = $1', TG_ARGV[0])
+  USING OLD.pin_id;
+  RETURN OLD;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER bump_like_count
+  AFTER INSERT OR DELETE ON public.likes
+  FOR EACH ROW
+  EXECUTE FUNCTION public.bump_pin_counter('like_count');
+
+CREATE TRIGGER bump_save_count
+  AFTER INSERT OR DELETE ON public.saves
+  FOR EACH ROW
+  EXECUTE FUNCTION public.bump_pin_counter('save_count');
+
+CREATE TRIGGER bump_comment_count
+  AFTER INSERT OR DELETE ON public.comments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.bump_pin_counter('comment_count');
+
+-- Recomputes the counters from the source tables, for one pin or all of them.
+-- Returns how many pins had drifted.
+CREATE OR REPLACE FUNCTION public.recount_pin_counters(target_pin_id UUID DEFAULT NULL)
+RETURNS INTEGER AS $$
+DECLARE
+  repaired INTEGER;
+BEGIN
+  WITH actual AS (
+    SELECT
+      pins.id,
+      (SELECT count(*) FROM public.likes WHERE likes.pin_id = pins.id)::integer AS like_count,
+      (SELECT count(*) FROM public.saves WHERE saves.pin_id = pins.id)::integer AS save_count,
+      (SELECT count(*) FROM public.comments WHERE comments.pin_id = pins.id)::integer AS comment_count
+    FROM public.pins
+    WHERE target_pin_id IS NULL OR pins.id = target_pin_id
+  )
+  UPDATE public.pins
+  SET like_count = actual.like_count,
+      save_count = actual.save_count,
+      comment_count = actual.comment_count
+  FROM actual
+  WHERE pins.id = actual.id
+    AND (pins.like_count, pins.save_count, pins.comment_count)
+      IS DISTINCT FROM (actual.like_count, actual.save_count, actual.comment_count);
+
+  GET DIAGNOSTICS repaired = ROW_COUNT;
+  RETURN repaired;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Maintenance only: run from the SQL editor or with the service role
+REVOKE EXECUTE ON FUNCTION public.recount_pin_counters(UUID) FROM PUBLIC, anon, authenticated;
+
+SELECT public.recount_pin_counters();
+
+-- The feed reads the stored counters instead of counting per row
+CREATE OR REPLACE VIEW public.feed_pins
+WITH (security_invoker = true) AS
+SELECT
+  pins.id,
+  pins.user_id,
+  pins.title,
+  pins.description,
+  pins.image_url,
+  pins.tags,
+  pins.visibility,
+  pins.created_at,
+  pins.updated_at,
+  profiles.username AS author_username,
+  profiles.display_name AS author_display_name,
+  profiles.avatar_url AS author_avatar_url,
+  pins.like_count,
+  pins.save_count,
+  pins.comment_count,
+  EXISTS (
+    SELECT 1 FROM public.likes
+    WHERE likes.pin_id = pins.id AND likes.user_id = auth.uid()
+  ) AS viewer_liked,
+  EXISTS (
+    SELECT 1 FROM public.saves
+    WHERE saves.pin_id = pins.id AND saves.user_id = auth.uid()
+  ) AS viewer_saved
+FROM public.pins
+JOIN public.profiles ON profiles.user_id = pins.user_id;
+
+-- Counter changes now reach clients as pin updates
+ALTER PUBLICATION supabase_realtime DROP TABLE public.likes;
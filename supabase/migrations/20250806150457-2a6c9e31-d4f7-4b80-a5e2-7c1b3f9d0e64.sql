@@ -0,0 +1,67 @@
+-- Server-side search: weighted full-text over pins, trigram over authors
+CREATE EXTENSION IF NOT EXISTS pg_trgm WITH SCHEMA extensions;
+
+ALTER TABLE public.pins ADD COLUMN search_vector tsvector;
+
+-- Title matters most, then tags, then the description
+CREATE OR REPLACE FUNCTION public.pin_search_vector(title TEXT, description TEXT, tags TEXT[])
+RETURNS tsvector AS $$
+  SELECT
+    setweight(to_tsvector('english', coalesce(title, '')), 'A') ||
+    setweight(to_tsvector('english', coalesce(array_to_string(tags, ' '), '')), 'B') ||
+    setweight(to_tsvector('english', coalesce(description, '')), 'C');
+$$ LANGUAGE sql STABLE SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.update_pin_search_vector()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.search_vector := public.pin_search_vector(NEW.title, NEW.description, NEW.tags);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER update_pins_search_vector
+  BEFORE INSERT OR UPDATE OF title, description, tags ON public.pins
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_pin_search_vector();
+
+UPDATE public.pins SET search_vector = public.pin_search_vector(title, description, tags);
+
+CREATE INDEX pins_search_vector_idx ON public.pins USING GIN (search_vector);
+CREATE INDEX profiles_username_trgm_idx ON public.profiles USING GIN (username extensions.gin_trgm_ops);
+CREATE INDEX profiles_display_name_trgm_idx ON public.profiles USING GIN (display_name extensions.gin_trgm_ops);
+
+-- Pins matching a free-text query, best matches first. Text matches are
+-- ranked by ts_rank, author matches by trigram similarity. Runs as the
+-- caller, so only pins they can see are returned.
+CREATE OR REPLACE FUNCTION public.search_pins(
+  query TEXT,
+  page_size INTEGER DEFAULT 30,
+  page_offset INTEGER DEFAULT 0
+)
+RETURNS SETOF public.feed_pins AS $$
+  WITH terms AS (
+    SELECT
+      websearch_to_tsquery('english', query) AS ts,
+      lower(btrim(query)) AS raw
+  )
+  SELECT feed.*
+  FROM public.feed_pins AS feed
+  JOIN public.pins ON pins.id = feed.id
+  CROSS JOIN terms
+  WHERE terms.raw <> '' AND (
+    pins.search_vector @@ terms.ts OR
+    feed.author_username % terms.raw OR
+    feed.author_display_name % terms.raw
+  )
+  ORDER BY
+    greatest(
+      ts_rank(pins.search_vector, terms.ts),
+      extensions.similarity(feed.author_username, terms.raw),
+      extensions.similarity(coalesce(feed.author_display_name, ''), terms.raw)
+    ) DESC,
+    feed.created_at DESC,
+    feed.id DESC
+  LIMIT least(greatest(page_size, 1), 100)
+  OFFSET greatest(page_offset, 0);
+$$ LANGUAGE sql STABLE SET search_path = public, extensions;
@@ -0,0 +1,69 @@
+-- Field filters for search: tags, authors, date range and required fields.
+-- The free-text part keeps websearch syntax, so quoted phrases and -exclusions
+-- are handled by websearch_to_tsquery.
+DROP FUNCTION public.search_pins(TEXT, INTEGER, INTEGER);
+
+CREATE OR REPLACE FUNCTION public.search_pins(
+  query TEXT DEFAULT '',
+  tag_filter TEXT[] DEFAULT NULL,
+  user_filter TEXT[] DEFAULT NULL,
+  created_before DATE DEFAULT NULL,
+  created_after DATE DEFAULT NULL,
+  has_description BOOLEAN DEFAULT false,
+  has_tags BOOLEAN DEFAULT false,
+  page_size INTEGER DEFAULT 30,
+  page_offset INTEGER DEFAULT 0
+)
+RETURNS SETOF public.feed_pins AS $$
+  WITH terms AS (
+    SELECT
+      websearch_to_tsquery('english', coalesce(query, '')) AS ts,
+      -- Author matching only looks at the positive words
+      lower(btrim(regexp_replace(coalesce(query, ''), '(^|\s)-("[^"]*"?|\S+)|"', ' ', 'g'))) AS raw,
+      btrim(coalesce(query, '')) <> '' AS has_text
+  )
+  SELECT feed.*
+  FROM public.feed_pins AS feed
+  JOIN public.pins ON pins.id = feed.id
+  CROSS JOIN terms
+  WHERE (
+    terms.has_text OR
+    cardinality(tag_filter) > 0 OR
+    cardinality(user_filter) > 0 OR
+    created_before IS NOT NULL OR
+    created_after IS NOT NULL OR
+    has_description OR
+    has_tags
+  )
+  AND (
+    NOT terms.has_text OR
+    pins.search_vector @@ terms.ts OR
+    (terms.raw <> '' AND (
+      feed.author_username % terms.raw OR
+      feed.author_display_name % terms.raw
+    ))
+  )
+  AND (
+    coalesce(cardinality(tag_filter), 0) = 0 OR
+    tag_filter <@ ARRAY(SELECT lower(tag) FROM unnest(feed.tags) AS tag)
+  )
+  AND (
+    coalesce(cardinality(user_filter), 0) = 0 OR
+    lower(feed.author_username) = ANY (user_filter)
+  )
+  AND (created_before IS NULL OR feed.created_at < created_before)
+  -- after: is exclusive of the whole day given
+  AND (created_after IS NULL OR feed.created_at >= created_after + 1)
+  AND (NOT has_description OR btrim(coalesce(feed.description, '')) <> '')
+  AND (NOT has_tags OR coalesce(cardinality(feed.tags), 0) > 0)
+  ORDER BY
+    greatest(
+      ts_rank(pins.search_vector, terms.ts),
+      extensions.similarity(feed.author_username, terms.raw),
+      extensions.similarity(coalesce(feed.author_display_name, ''), terms.raw)
+    ) DESC,
+    feed.created_at DESC,
+    feed.id DESC
+  LIMIT least(greatest(page_size, 1), 100)
+  OFFSET greatest(page_offset, 0);
+$$ LANGUAGE sql STABLE SET search_path = public, extensions;
@@ -0,0 +1,81 @@
+-- Per-user search history for the search box suggestions
+CREATE TABLE public.search_history (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  query TEXT NOT NULL CHECK (btrim(query) <> '' AND char_length(query) <= 200),
+  searched_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE(user_id, query)
+);
+
+CREATE INDEX search_history_user_id_searched_at_idx ON public.search_history (user_id, searched_at DESC);
+
+ALTER TABLE public.search_history ENABLE ROW LEVEL SECURITY;
+
+-- RLS policies for search history
+CREATE POLICY "Users can view their own search history"
+ON public.search_history FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can record their own searches"
+ON public.search_history FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own searches"
+ON public.search_history FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can clear their own search history"
+ON public.search_history FOR DELETE USING (auth.uid() = user_id);
+
+-- Only the most recent searches are worth keeping
+CREATE OR REPLACE FUNCTION public.prune_search_history()
+RETURNS TRIGGER AS $$
+BEGIN
+  DELETE FROM public.search_history
+  WHERE user_id = NEW.user_id
+    AND id NOT IN (
+      SELECT id FROM public.search_history
+      WHERE user_id = NEW.user_id
+      ORDER BY searched_at DESC
+      LIMIT 20
+    );
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER prune_search_history_after_insert
+  AFTER INSERT ON public.search_history
+  FOR EACH ROW
+  EXECUTE FUNCTION public.prune_search_history();
+
+-- Tags starting with a prefix, most used first. Runs as the caller, so
+-- secret pins only count towards their owner's suggestions.
+CREATE OR REPLACE FUNCTION public.suggest_tags(prefix TEXT, max_results INTEGER DEFAULT 5)
+RETURNS TABLE (tag TEXT, pin_count BIGINT) AS $$
+  SELECT lower(btrim(pin_tag)) AS tag, count(DISTINCT pins.id) AS pin_count
+  FROM public.pins
+  CROSS JOIN LATERAL unnest(pins.tags) AS pin_tag
+  WHERE btrim(prefix) <> ''
+    AND starts_with(lower(btrim(pin_tag)), lower(btrim(prefix)))
+  GROUP BY 1
+  ORDER BY pin_count DESC, tag
+  LIMIT least(greatest(max_results, 1), 20);
+$$ LANGUAGE sql STABLE SET search_path = public;
+
+-- Users whose username or display name starts with, or closely resembles, a prefix
+CREATE OR REPLACE FUNCTION public.suggest_users(prefix TEXT, max_results INTEGER DEFAULT 5)
+RETURNS SETOF public.profiles AS $$
+  SELECT profiles.*
+  FROM public.profiles
+  WHERE btrim(prefix) <> '' AND (
+    starts_with(lower(profiles.username), lower(btrim(prefix))) OR
+    starts_with(lower(coalesce(profiles.display_name, '')), lower(btrim(prefix))) OR
+    profiles.username % btrim(prefix) OR
+    profiles.display_name % btrim(prefix)
+  )
+  ORDER BY
+    starts_with(lower(profiles.username), lower(btrim(prefix))) DESC,
+    greatest(
+      extensions.similarity(profiles.username, btrim(prefix)),
+      extensions.similarity(coalesce(profiles.display_name, ''), btrim(prefix))
+    ) DESC,
+    profiles.username
+  LIMIT least(greatest(max_results, 1), 20);
+$$ LANGUAGE sql STABLE SET search_path = public, extensions;
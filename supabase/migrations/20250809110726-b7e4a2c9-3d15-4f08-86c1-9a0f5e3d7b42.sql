@@ -0,0 +1,124 @@
+-- Normalized tags: "Food", "food " and "#food" are all the tag "food"
+
+-- Canonical form of a tag: lowercase, no leading #, runs of anything other
+-- than letters and digits collapsed into single dashes. Cut to 50
+-- characters before the dashes are trimmed, so a slug never ends in one and
+-- normalizing a slug gives it back unchanged.
+CREATE OR REPLACE FUNCTION public.normalize_tag(value TEXT)
+RETURNS TEXT AS $$
+  SELECT nullif(
+    trim(both '-' from left(regexp_replace(lower(ltrim(btrim(value), '#')), '[^[:alnum:]]+', '-', 'g'), 50)),
+    ''
+  );
+$$ LANGUAGE sql IMMUTABLE;
+
+CREATE TABLE public.tags (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  slug TEXT NOT NULL UNIQUE CHECK (slug = public.normalize_tag(slug)),
+  -- How the tag was first written, for headings
+  name TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE TABLE public.pin_tags (
+  pin_id UUID NOT NULL REFERENCES public.pins(id) ON DELETE CASCADE,
+  tag_id UUID NOT NULL REFERENCES public.tags(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (pin_id, tag_id)
+);
+
+CREATE INDEX pin_tags_tag_id_idx ON public.pin_tags (tag_id);
+CREATE INDEX pins_tags_idx ON public.pins USING GIN (tags);
+
+ALTER TABLE public.tags ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.pin_tags ENABLE ROW LEVEL SECURITY;
+
+-- Tags and pin tags are only written by the triggers below
+CREATE POLICY "Tags are viewable by everyone"
+ON public.tags FOR SELECT USING (true);
+
+CREATE POLICY "Pin tags are viewable with their pin"
+ON public.pin_tags FOR SELECT USING (
+  EXISTS (SELECT 1 FROM public.pins WHERE pins.id = pin_tags.pin_id)
+);
+
+-- Rewrites pins.tags to canonical slugs, dropping blanks and duplicates,
+-- and registers any tag seen for the first time
+CREATE OR REPLACE FUNCTION public.normalize_pin_tags()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.tags IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO public.tags (slug, name)
+  SELECT DISTINCT ON (public.normalize_tag(raw))
+    public.normalize_tag(raw),
+    left(btrim(ltrim(btrim(raw), '#')), 50)
+  FROM unnest(NEW.tags) WITH ORDINALITY AS entries(raw, position)
+  WHERE public.normalize_tag(raw) IS NOT NULL
+  ORDER BY public.normalize_tag(raw), position
+  ON CONFLICT (slug) DO NOTHING;
+
+  NEW.tags := ARRAY(
+    SELECT slug
+    FROM (
+      SELECT public.normalize_tag(raw) AS slug, min(position) AS first_position
+      FROM unnest(NEW.tags) WITH ORDINALITY AS entries(raw, position)
+      GROUP BY 1
+    ) AS normalized
+    WHERE slug IS NOT NULL
+    ORDER BY first_position
+  );
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Sorts before update_pins_search_vector, so the vector sees the slugs
+CREATE TRIGGER normalize_pin_tags_before_write
+  BEFORE INSERT OR UPDATE OF tags ON public.pins
+  FOR EACH ROW
+  EXECUTE FUNCTION public.normalize_pin_tags();
+
+-- Mirrors pins.tags into pin_tags
+CREATE OR REPLACE FUNCTION public.sync_pin_tags()
+RETURNS TRIGGER AS $$
+BEGIN
+  DELETE FROM public.pin_tags
+  USING public.tags
+  WHERE pin_tags.pin_id = NEW.id
+    AND tags.id = pin_tags.tag_id
+    AND NOT (tags.slug = ANY (coalesce(NEW.tags, '{}')));
+
+  INSERT INTO public.pin_tags (pin_id, tag_id)
+  SELECT NEW.id, tags.id
+  FROM public.tags
+  WHERE tags.slug = ANY (coalesce(NEW.tags, '{}'))
+  ON CONFLICT DO NOTHING;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER sync_pin_tags_after_write
+  AFTER INSERT OR UPDATE OF tags ON public.pins
+  FOR EACH ROW
+  EXECUTE FUNCTION public.sync_pin_tags();
+
+-- Normalize existing pins without touching their updated_at
+ALTER TABLE public.pins DISABLE TRIGGER update_pins_updated_at;
+UPDATE public.pins SET tags = tags WHERE tags IS NOT NULL;
+ALTER TABLE public.pins ENABLE TRIGGER update_pins_updated_at;
+
+-- Suggestions now count through pin_tags; its policy keeps other people's
+-- secret pins out of the counts
+CREATE OR REPLACE FUNCTION public.suggest_tags(prefix TEXT, max_results INTEGER DEFAULT 5)
+RETURNS TABLE (tag TEXT, pin_count BIGINT) AS $$
+  SELECT tags.slug AS tag, count(*) AS pin_count
+  FROM public.tags
+  JOIN public.pin_tags ON pin_tags.tag_id = tags.id
+  WHERE starts_with(tags.slug, public.normalize_tag(prefix))
+  GROUP BY tags.slug
+  ORDER BY pin_count DESC, tags.slug
+  LIMIT least(greatest(max_results, 1), 20);
+$$ LANGUAGE sql STABLE SET search_path = public;
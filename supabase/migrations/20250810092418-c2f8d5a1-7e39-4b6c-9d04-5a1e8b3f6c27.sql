@@ -0,0 +1,32 @@
+-- Users following topics
+CREATE TABLE public.tag_follows (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  tag_id UUID NOT NULL REFERENCES public.tags(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE(user_id, tag_id)
+);
+
+ALTER TABLE public.tag_follows ENABLE ROW LEVEL SECURITY;
+
+-- Interests are private to their owner
+CREATE POLICY "Users can view their own tag follows"
+ON public.tag_follows FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can follow tags as themselves"
+ON public.tag_follows FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can unfollow tags as themselves"
+ON public.tag_follows FOR DELETE USING (auth.uid() = user_id);
+
+-- Most used tags, for picking interests. Runs as the caller, so other
+-- people's secret pins are not counted.
+CREATE OR REPLACE FUNCTION public.popular_tags(max_results INTEGER DEFAULT 30)
+RETURNS TABLE (tag_id UUID, slug TEXT, name TEXT, pin_count BIGINT) AS $$
+  SELECT tags.id AS tag_id, tags.slug, tags.name, count(*) AS pin_count
+  FROM public.tags
+  JOIN public.pin_tags ON pin_tags.tag_id = tags.id
+  GROUP BY tags.id
+  ORDER BY pin_count DESC, tags.slug
+  LIMIT least(greatest(max_results, 1), 100);
+$$ LANGUAGE sql STABLE SET search_path = public;
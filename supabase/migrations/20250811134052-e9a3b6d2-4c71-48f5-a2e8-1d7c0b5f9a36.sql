@@ -0,0 +1,115 @@
+-- Explore: trending pins, trending tags and newly active creators.
+-- Precomputed in materialized views and refreshed on a schedule, so the
+-- explore page never aggregates activity per request. Only public pins are
+-- included, as materialized views do not go through RLS.
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+-- Likes, saves and comments from the last week, each halving in weight
+-- every 24 hours. Comments and saves say more about a pin than a like.
+CREATE MATERIALIZED VIEW public.trending_pins AS
+WITH activity AS (
+  SELECT pin_id, created_at, 1.0 AS weight FROM public.likes
+  WHERE created_at > now() - interval '7 days'
+  UNION ALL
+  SELECT pin_id, created_at, 2.0 AS weight FROM public.saves
+  WHERE created_at > now() - interval '7 days'
+  UNION ALL
+  SELECT pin_id, created_at, 3.0 AS weight FROM public.comments
+  WHERE created_at > now() - interval '7 days'
+)
+SELECT
+  pins.id AS pin_id,
+  sum(activity.weight * power(0.5, extract(epoch FROM now() - activity.created_at) / 86400.0))::double precision AS score
+FROM activity
+JOIN public.pins ON pins.id = activity.pin_id
+WHERE pins.visibility = 'public'
+GROUP BY pins.id;
+
+CREATE UNIQUE INDEX trending_pins_pin_id_idx ON public.trending_pins (pin_id);
+CREATE INDEX trending_pins_score_idx ON public.trending_pins (score DESC);
+
+-- New public pins and activity on them, per tag, over the last day and week
+CREATE MATERIALIZED VIEW public.trending_tags AS
+WITH windows (time_window, since) AS (
+  VALUES ('24h', now() - interval '24 hours'), ('7d', now() - interval '7 days')
+),
+activity AS (
+  SELECT id AS pin_id, created_at FROM public.pins
+  WHERE created_at > now() - interval '7 days'
+  UNION ALL
+  SELECT pin_id, created_at FROM public.likes
+  WHERE created_at > now() - interval '7 days'
+  UNION ALL
+  SELECT pin_id, created_at FROM public.saves
+  WHERE created_at > now() - interval '7 days'
+  UNION ALL
+  SELECT pin_id, created_at FROM public.comments
+  WHERE created_at > now() - interval '7 days'
+)
+SELECT
+  windows.time_window,
+  tags.id AS tag_id,
+  tags.slug,
+  tags.name,
+  count(*) AS activity_count,
+  count(DISTINCT pins.id) AS pin_count
+FROM windows
+JOIN activity ON activity.created_at > windows.since
+JOIN public.pins ON pins.id = activity.pin_id AND pins.visibility = 'public'
+JOIN public.pin_tags ON pin_tags.pin_id = pins.id
+JOIN public.tags ON tags.id = pin_tags.tag_id
+GROUP BY windows.time_window, tags.id;
+
+CREATE UNIQUE INDEX trending_tags_window_tag_idx ON public.trending_tags (time_window, tag_id);
+CREATE INDEX trending_tags_window_count_idx ON public.trending_tags (time_window, activity_count DESC);
+
+-- Creators who pinned publicly in the last week, with when they started
+CREATE MATERIALIZED VIEW public.active_creators AS
+SELECT
+  pins.user_id,
+  profiles.username,
+  profiles.display_name,
+  profiles.avatar_url,
+  count(*) FILTER (WHERE pins.created_at > now() - interval '7 days') AS recent_pin_count,
+  min(pins.created_at) AS first_pinned_at,
+  max(pins.created_at) AS last_pinned_at
+FROM public.pins
+JOIN public.profiles ON profiles.user_id = pins.user_id
+WHERE pins.visibility = 'public'
+GROUP BY pins.user_id, profiles.username, profiles.display_name, profiles.avatar_url
+HAVING max(pins.created_at) > now() - interval '7 days';
+
+CREATE UNIQUE INDEX active_creators_user_id_idx ON public.active_creators (user_id);
+CREATE INDEX active_creators_first_pinned_at_idx ON public.active_creators (first_pinned_at DESC);
+
+REVOKE ALL ON public.trending_pins, public.trending_tags, public.active_creators FROM anon, authenticated;
+GRANT SELECT ON public.trending_pins, public.trending_tags, public.active_creators TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.refresh_explore()
+RETURNS void AS $$
+BEGIN
+  REFRESH MATERIALIZED VIEW CONCURRENTLY public.trending_pins;
+  REFRESH MATERIALIZED VIEW CONCURRENTLY public.trending_tags;
+  REFRESH MATERIALIZED VIEW CONCURRENTLY public.active_creators;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.refresh_explore() FROM PUBLIC, anon, authenticated;
+
+SELECT cron.schedule('refresh-explore', '*/15 * * * *', 'SELECT public.refresh_explore()');
+
+-- Trending pins with their authors, counters and the viewer's flags. The
+-- view runs as the caller, so a pin made secret since the last refresh drops out.
+CREATE OR REPLACE FUNCTION public.explore_pins(
+  page_size INTEGER DEFAULT 30,
+  page_offset INTEGER DEFAULT 0
+)
+RETURNS SETOF public.feed_pins AS $$
+  SELECT feed.*
+  FROM public.trending_pins AS trending
+  JOIN public.feed_pins AS feed ON feed.id = trending.pin_id
+  WHERE feed.visibility = 'public'
+  ORDER BY trending.score DESC, feed.created_at DESC, feed.id DESC
+  LIMIT least(greatest(page_size, 1), 100)
+  OFFSET greatest(page_offset, 0);
+$$ LANGUAGE sql STABLE SET search_path = public;
@@ -0,0 +1,38 @@
+-- Intrinsic image size, captured at upload, so grids can lay pins out and
+-- reserve their space before the image has loaded. Older pins stay NULL.
+ALTER TABLE public.pins
+  ADD COLUMN width INTEGER CHECK (width > 0),
+  ADD COLUMN height INTEGER CHECK (height > 0),
+  ADD CONSTRAINT pins_dimensions_together CHECK ((width IS NULL) = (height IS NULL));
+
+-- New columns go last so the view can be replaced in place
+CREATE OR REPLACE VIEW public.feed_pins
+WITH (security_invoker = true) AS
+SELECT
+  pins.id,
+  pins.user_id,
+  pins.title,
+  pins.description,
+  pins.image_url,
+  pins.tags,
+  pins.visibility,
+  pins.created_at,
+  pins.updated_at,
+  profiles.username AS author_username,
+  profiles.display_name AS author_display_name,
+  profiles.avatar_url AS author_avatar_url,
+  pins.like_count,
+  pins.save_count,
+  pins.comment_count,
+  EXISTS (
+    SELECT 1 FROM public.likes
+    WHERE likes.pin_id = pins.id AND likes.user_id = auth.uid()
+  ) AS viewer_liked,
+  EXISTS (
+    SELECT 1 FROM public.saves
+    WHERE saves.pin_id = pins.id AND saves.user_id = auth.uid()
+  ) AS viewer_saved,
+  pins.width,
+  pins.height
+FROM public.pins
+JOIN public.profiles ON profiles.user_id = pins.user_id;
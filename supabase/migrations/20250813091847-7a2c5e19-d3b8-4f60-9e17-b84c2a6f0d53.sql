@@ -0,0 +1,53 @@
+-- Re-encoded renditions of each upload, as [{ "width": 236, "url": "…" }, …]
+-- ordered by width. image_url points at the full-size rendition; older pins
+-- keep their original file and no variants.
+ALTER TABLE public.pins
+  ADD COLUMN image_variants JSONB CHECK (jsonb_typeof(image_variants) = 'array');
+
+-- New columns go last so the view can be replaced in place
+CREATE OR REPLACE VIEW public.feed_pins
+WITH (security_invoker = true) AS
+SELECT
+  pins.id,
+  pins.user_id,
+  pins.title,
+  pins.description,
+  pins.image_url,
+  pins.tags,
+  pins.visibility,
+  pins.created_at,
+  pins.updated_at,
+  profiles.username AS author_username,
+  profiles.display_name AS author_display_name,
+  profiles.avatar_url AS author_avatar_url,
+  pins.like_count,
+  pins.save_count,
+  pins.comment_count,
+  EXISTS (
+    SELECT 1 FROM public.likes
+    WHERE likes.pin_id = pins.id AND likes.user_id = auth.uid()
+  ) AS viewer_liked,
+  EXISTS (
+    SELECT 1 FROM public.saves
+    WHERE saves.pin_id = pins.id AND saves.user_id = auth.uid()
+  ) AS viewer_saved,
+  pins.width,
+  pins.height,
+  pins.image_variants
+FROM public.pins
+JOIN public.profiles ON profiles.user_id = pins.user_id;
+
+-- Secret pins store paths for every rendition, and whoever can see the pin
+-- needs to read all of them
+DROP POLICY "Secret pin images are visible to whoever can see the pin" ON storage.objects;
+CREATE POLICY "Secret pin images are visible to whoever can see the pin" 
+ON storage.objects FOR SELECT USING (
+  bucket_id = 'pin-images-secret' AND (
+    auth.uid()::text = (storage.foldername(name))[1] OR
+    EXISTS (
+      SELECT 1 FROM public.pins
+      WHERE pins.image_url = storage.objects.name
+        OR pins.image_variants @> jsonb_build_array(jsonb_build_object('url', storage.objects.name))
+    )
+  )
+);
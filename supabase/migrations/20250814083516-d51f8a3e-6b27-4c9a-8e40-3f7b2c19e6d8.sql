@@ -0,0 +1,41 @@
+-- Captured at upload so feeds can paint something in the image's place
+-- straight away: a tiny blurred preview as a data URL, and the image's most
+-- common colour. Both stay NULL for older pins.
+ALTER TABLE public.pins
+  ADD COLUMN placeholder TEXT CHECK (placeholder LIKE 'data:image/%' AND length(placeholder) <= 4096),
+  ADD COLUMN dominant_color TEXT CHECK (dominant_color ~ '^#[0-9a-f]{6}$');
+
+-- New columns go last so the view can be replaced in place
+CREATE OR REPLACE VIEW public.feed_pins
+WITH (security_invoker = true) AS
+SELECT
+  pins.id,
+  pins.user_id,
+  pins.title,
+  pins.description,
+  pins.image_url,
+  pins.tags,
+  pins.visibility,
+  pins.created_at,
+  pins.updated_at,
+  profiles.username AS author_username,
+  profiles.display_name AS author_display_name,
+  profiles.avatar_url AS author_avatar_url,
+  pins.like_count,
+  pins.save_count,
+  pins.comment_count,
+  EXISTS (
+    SELECT 1 FROM public.likes
+    WHERE likes.pin_id = pins.id AND likes.user_id = auth.uid()
+  ) AS viewer_liked,
+  EXISTS (
+    SELECT 1 FROM public.saves
+    WHERE saves.pin_id = pins.id AND saves.user_id = auth.uid()
+  ) AS viewer_saved,
+  pins.width,
+  pins.height,
+  pins.image_variants,
+  pins.placeholder,
+  pins.dominant_color
+FROM public.pins
+JOIN public.profiles ON profiles.user_id = pins.user_id;
@@ -0,0 +1,44 @@
+-- Camera details the uploader chose to keep, as read from the photo's EXIF:
+-- make, model, lens and exposure settings. Location and other metadata are
+-- stripped in the browser, and the column only accepts the keys above.
+ALTER TABLE public.pins
+  ADD COLUMN camera_info JSONB CHECK (
+    jsonb_typeof(camera_info) = 'object' AND
+    camera_info - ARRAY['make', 'model', 'lens', 'focalLength', 'fNumber', 'exposureTime', 'iso'] = '{}'::jsonb
+  );
+
+-- New columns go last so the view can be replaced in place
+CREATE OR REPLACE VIEW public.feed_pins
+WITH (security_invoker = true) AS
+SELECT
+  pins.id,
+  pins.user_id,
+  pins.title,
+  pins.description,
+  pins.image_url,
+  pins.tags,
+  pins.visibility,
+  pins.created_at,
+  pins.updated_at,
+  profiles.username AS author_username,
+  profiles.display_name AS author_display_name,
+  profiles.avatar_url AS author_avatar_url,
+  pins.like_count,
+  pins.save_count,
+  pins.comment_count,
+  EXISTS (
+    SELECT 1 FROM public.likes
+    WHERE likes.pin_id = pins.id AND likes.user_id = auth.uid()
+  ) AS viewer_liked,
+  EXISTS (
+    SELECT 1 FROM public.saves
+    WHERE saves.pin_id = pins.id AND saves.user_id = auth.uid()
+  ) AS viewer_saved,
+  pins.width,
+  pins.height,
+  pins.image_variants,
+  pins.placeholder,
+  pins.dominant_color,
+  pins.camera_info
+FROM public.pins
+JOIN public.profiles ON profiles.user_id = pins.user_id;
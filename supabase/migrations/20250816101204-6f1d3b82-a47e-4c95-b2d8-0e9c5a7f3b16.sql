@@ -0,0 +1,11 @@
+-- Pins saved in a board, newest save first, keyed on the board so large
+-- boards do not have to send every pin id in the request URL. Runs as the
+-- caller, so only saves and pins they can see are returned.
+CREATE OR REPLACE FUNCTION public.board_pins(target_board_id UUID)
+RETURNS SETOF public.feed_pins AS $$
+  SELECT feed.*
+  FROM public.saves
+  JOIN public.feed_pins AS feed ON feed.id = saves.pin_id
+  WHERE saves.board_id = target_board_id
+  ORDER BY saves.created_at DESC, saves.id DESC;
+$$ LANGUAGE sql STABLE SET search_path = public;